@@ -6,6 +6,7 @@ import * as XLSX from "xlsx";
 import { Upload } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -23,35 +24,69 @@ import {
 } from "@/components/ui/table";
 import { toast } from "sonner";
 import { useTranslation } from "@/app/i18n/languageProvider";
+import { ChartType } from "@/lib/scene";
+import { isValidCandle } from "@/lib/candles";
 
 /* ---------------- TYPES ---------------- */
 
 type ImportPoint = {
-  value: string; // stored as string (safe for inputs)
+  value: string; // stored as string (safe for inputs), the close for OHLC
   time: string;
+  open: string;
+  high: string;
+  low: string;
+  extra: string[]; // further value columns, one per extra series
+  note: string; // optional, becomes an annotation on the point
 };
 
 type FinalPoint = {
   value: number; // converted to number before applying
   time: string;
+  open?: number;
+  high?: number;
+  low?: number;
+};
+
+// One per value column, the first one is the main series
+type ImportedSeries = {
+  name: string;
+  points: FinalPoint[];
 };
 
 interface Props {
-  onApply: (points: FinalPoint[]) => void;
+  onApply: (
+    series: ImportedSeries[],
+    chartType: ChartType,
+    notes: string[], // per row of the main series, empty for none
+  ) => void;
 }
 
+const CANDLE_FIELDS = ["open", "high", "low"] as const;
+
+// Columns that never hold series values
+const RESERVED_COLUMNS = ["time", "note", ...CANDLE_FIELDS, "close"];
+
 /* ---------------- COMPONENT ---------------- */
 
 export default function ImportPointsDialog({ onApply }: Props) {
   const { t } = useTranslation();
   const [open, setOpen] = useState(false);
   const [parsedPoints, setParsedPoints] = useState<ImportPoint[]>([]);
+  const [chartType, setChartType] = useState<ChartType>("line");
+  const [valueColumns, setValueColumns] = useState<string[]>([]);
+  // One flag per further value column, unticked ones are left out
+  const [includedColumns, setIncludedColumns] = useState<boolean[]>([]);
+  const [hasNotes, setHasNotes] = useState(false);
   const fileRef = useRef<HTMLInputElement>(null);
 
   /* ---------------- RESET ---------------- */
 
   const resetState = () => {
     setParsedPoints([]);
+    setChartType("line");
+    setValueColumns([]);
+    setIncludedColumns([]);
+    setHasNotes(false);
     if (fileRef.current) fileRef.current.value = "";
   };
 
@@ -62,9 +97,37 @@ export default function ImportPointsDialog({ onApply }: Props) {
     return h * 60 + m;
   };
 
+  const toFinalPoint = (point: ImportPoint): FinalPoint =>
+    chartType === "candles"
+      ? {
+          value: Number(point.value),
+          time: point.time,
+          open: Number(point.open),
+          high: Number(point.high),
+          low: Number(point.low),
+        }
+      : { value: Number(point.value), time: point.time };
+
   const isRowInvalid = (point: ImportPoint, index: number) => {
     if (!point.time || isNaN(Number(point.value))) return true;
 
+    if (
+      point.extra.some(
+        (value, column) =>
+          includedColumns[column] && (value === "" || isNaN(Number(value))),
+      )
+    ) {
+      return true;
+    }
+
+    if (
+      chartType === "candles" &&
+      (CANDLE_FIELDS.some((field) => point[field] === "") ||
+        !isValidCandle(toFinalPoint(point)))
+    ) {
+      return true;
+    }
+
     if (index > 0) {
       const prev = timeToMinutes(parsedPoints[index - 1].time);
       const current = timeToMinutes(point.time);
@@ -99,9 +162,33 @@ export default function ImportPointsDialog({ onApply }: Props) {
   };
 
   const processRows = (rows: any[]) => {
+    // open / high / low / close columns switch the import to candles
+    const ohlc = rows.some(
+      (r) => r.open !== undefined && r.close !== undefined,
+    );
+
+    // Every numeric column can be a series, "value" stays the main one
+    const numericColumns = Object.keys(rows[0] ?? {}).filter(
+      (key) =>
+        !RESERVED_COLUMNS.includes(key) &&
+        rows.some((r) => r[key] !== "" && !isNaN(Number(r[key]))),
+    );
+    const columns = ohlc
+      ? ["close"]
+      : [
+          ...numericColumns.filter((key) => key === "value"),
+          ...numericColumns.filter((key) => key !== "value"),
+        ];
+    const [mainColumn = "value", ...extraColumns] = columns;
+
     const mapped = rows.map((r) => ({
-      value: r.value?.toString() ?? "",
+      value: r[mainColumn]?.toString() ?? "",
       time: r.time ?? "",
+      open: r.open?.toString() ?? "",
+      high: r.high?.toString() ?? "",
+      low: r.low?.toString() ?? "",
+      extra: extraColumns.map((key) => r[key]?.toString() ?? ""),
+      note: r.note?.toString() ?? "",
     }));
 
     if (mapped.length < 2) {
@@ -110,6 +197,10 @@ export default function ImportPointsDialog({ onApply }: Props) {
     }
 
     setParsedPoints(mapped);
+    setChartType(ohlc ? "candles" : "line");
+    setValueColumns([mainColumn, ...extraColumns]);
+    setIncludedColumns(extraColumns.map(() => true));
+    setHasNotes(mapped.some((p) => p.note.trim() !== ""));
     toast.success(t("importDialog.fileParsed"));
   };
 
@@ -117,7 +208,7 @@ export default function ImportPointsDialog({ onApply }: Props) {
 
   const updateCell = (
     index: number,
-    field: "value" | "time",
+    field: "value" | "time" | "open" | "high" | "low" | "note",
     value: string,
   ) => {
     const updated = [...parsedPoints];
@@ -125,6 +216,20 @@ export default function ImportPointsDialog({ onApply }: Props) {
     setParsedPoints(updated);
   };
 
+  const updateExtraCell = (index: number, column: number, value: string) => {
+    const updated = [...parsedPoints];
+    updated[index].extra[column] = value;
+    setParsedPoints(updated);
+  };
+
+  // Header of a value column, the plain "value" column keeps its label
+  const columnTitle = (column: string) =>
+    column === "value"
+      ? t("importDialog.value")
+      : column === "close"
+        ? t("candles.close")
+        : column;
+
   /* ---------------- RENDER ---------------- */
 
   return (
@@ -181,8 +286,37 @@ export default function ImportPointsDialog({ onApply }: Props) {
                         <TableHead className="w-12">
                           {t("importDialog.index")}
                         </TableHead>
-                        <TableHead>{t("importDialog.value")}</TableHead>
+                        {chartType === "candles" &&
+                          CANDLE_FIELDS.map((field) => (
+                            <TableHead key={field}>
+                              {t(`candles.${field}`)}
+                            </TableHead>
+                          ))}
+                        {valueColumns.map((column, i) => (
+                          <TableHead key={column}>
+                            {i === 0 ? (
+                              columnTitle(column)
+                            ) : (
+                              <label className="flex items-center gap-2 cursor-pointer">
+                                <Checkbox
+                                  checked={includedColumns[i - 1]}
+                                  onCheckedChange={(checked) =>
+                                    setIncludedColumns(
+                                      includedColumns.map((included, j) =>
+                                        j === i - 1 ? !!checked : included,
+                                      ),
+                                    )
+                                  }
+                                />
+                                {columnTitle(column)}
+                              </label>
+                            )}
+                          </TableHead>
+                        ))}
                         <TableHead>{t("importDialog.time")}</TableHead>
+                        {hasNotes && (
+                          <TableHead>{t("importDialog.note")}</TableHead>
+                        )}
                         <TableHead>{t("importDialog.status")}</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -198,6 +332,20 @@ export default function ImportPointsDialog({ onApply }: Props) {
                           >
                             <TableCell>{index + 1}</TableCell>
 
+                            {chartType === "candles" &&
+                              CANDLE_FIELDS.map((field) => (
+                                <TableCell key={field}>
+                                  <Input
+                                    type="number"
+                                    className="w-[12ch] md:w-full min-w-[12ch] px-2"
+                                    value={point[field]}
+                                    onChange={(e) =>
+                                      updateCell(index, field, e.target.value)
+                                    }
+                                  />
+                                </TableCell>
+                              ))}
+
                             <TableCell>
                               <Input
                                 type="number"
@@ -209,6 +357,24 @@ export default function ImportPointsDialog({ onApply }: Props) {
                               />
                             </TableCell>
 
+                            {point.extra.map((value, column) => (
+                              <TableCell key={column}>
+                                <Input
+                                  type="number"
+                                  className="w-[12ch] md:w-full min-w-[12ch] px-2"
+                                  disabled={!includedColumns[column]}
+                                  value={value}
+                                  onChange={(e) =>
+                                    updateExtraCell(
+                                      index,
+                                      column,
+                                      e.target.value,
+                                    )
+                                  }
+                                />
+                              </TableCell>
+                            ))}
+
                             <TableCell>
                               <Input
                                 type="time"
@@ -220,6 +386,19 @@ export default function ImportPointsDialog({ onApply }: Props) {
                               />
                             </TableCell>
 
+                            {hasNotes && (
+                              <TableCell>
+                                <Input
+                                  className="w-[20ch] min-w-[20ch] px-2"
+                                  maxLength={60}
+                                  value={point.note}
+                                  onChange={(e) =>
+                                    updateCell(index, "note", e.target.value)
+                                  }
+                                />
+                              </TableCell>
+                            )}
+
                             <TableCell className="text-xs whitespace-nowrap">
                               {invalid ? (
                                 <span className="bg-red-600 px-3 py-1 rounded-full text-white font-semibold">
@@ -241,6 +420,9 @@ export default function ImportPointsDialog({ onApply }: Props) {
 
               <div className="px-4 py-2 bg-muted text-xs text-muted-foreground">
                 {parsedPoints.length} {t("importDialog.pointsDetected")}
+                {valueColumns.length > 1 && (
+                  <span className="ml-3">{t("importDialog.columnsHint")}</span>
+                )}
                 {hasInvalidRows && (
                   <span className="text-red-600 ml-3">
                     {t("importDialog.fixInvalidRows")}
@@ -254,12 +436,26 @@ export default function ImportPointsDialog({ onApply }: Props) {
             <Button
               disabled={!parsedPoints.length || hasInvalidRows}
               onClick={() => {
-                const cleaned: FinalPoint[] = parsedPoints.map((p) => ({
-                  value: Number(p.value),
-                  time: p.time,
-                }));
-
-                onApply(cleaned);
+                const cleaned: FinalPoint[] = parsedPoints.map(toFinalPoint);
+
+                const imported: ImportedSeries[] = valueColumns
+                  .map((column, i) => ({
+                    name: column,
+                    points:
+                      i === 0
+                        ? cleaned
+                        : parsedPoints.map((p) => ({
+                            value: Number(p.extra[i - 1]),
+                            time: p.time,
+                          })),
+                  }))
+                  .filter((_, i) => i === 0 || includedColumns[i - 1]);
+
+                onApply(
+                  imported,
+                  chartType,
+                  parsedPoints.map((p) => p.note.trim()),
+                );
                 setOpen(false);
                 resetState();
                 toast.success(t("toast.pointsApplied"));
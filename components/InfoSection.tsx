@@ -3,20 +3,39 @@
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Checkbox } from "@/components/ui/checkbox";
+import { TypographyConfig } from "@/lib/scene";
 
 type Props = {
   title: string;
   setTitle: (v: string) => void;
   description: string;
   setDescription: (v: string) => void;
+  typography: TypographyConfig;
+  setTypography: (v: TypographyConfig) => void;
   t: any;
 };
 
+const SIZE_LIMITS = {
+  titleSize: { min: 32, max: 120 },
+  descriptionSize: { min: 20, max: 72 },
+};
+
 export default function InfoSection({
   title,
   setTitle,
   description,
   setDescription,
+  typography,
+  setTypography,
   t,
 }: Props) {
   return (
@@ -37,6 +56,114 @@ export default function InfoSection({
           onChange={(e) => setDescription(e.target.value)}
         />
       </div>
+
+      {/* ================= TYPOGRAPHY CONTROLS ================= */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("typography.title")}
+        </Label>
+
+        <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+          {/* Alignment */}
+          <div className="flex flex-col gap-2 md:w-40">
+            <Label className="text-sm text-zinc-700">
+              {t("typography.align")}
+            </Label>
+            <Select
+              value={typography.align}
+              onValueChange={(value) =>
+                setTypography({
+                  ...typography,
+                  align: value as TypographyConfig["align"],
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="left">{t("typography.left")}</SelectItem>
+                <SelectItem value="center">{t("typography.center")}</SelectItem>
+                <SelectItem value="right">{t("typography.right")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Max lines */}
+          <div className="flex flex-col gap-2 md:w-32">
+            <Label className="text-sm text-zinc-700">
+              {t("typography.maxLines")}
+            </Label>
+            <Input
+              type="number"
+              min={1}
+              max={5}
+              value={typography.maxLines}
+              onChange={(e) =>
+                setTypography({
+                  ...typography,
+                  maxLines: Math.min(5, Math.max(1, Number(e.target.value))),
+                })
+              }
+              className="w-20"
+            />
+          </div>
+
+          {/* Font sizes */}
+          {(["titleSize", "descriptionSize"] as const).map((key) => (
+            <div key={key} className="flex flex-col gap-3 md:w-64">
+              <Label className="text-sm text-zinc-700">
+                {t(`typography.${key}`)}
+              </Label>
+              <div className="flex items-center gap-3">
+                <div className="flex-1">
+                  <Slider
+                    min={SIZE_LIMITS[key].min}
+                    max={SIZE_LIMITS[key].max}
+                    step={1}
+                    value={[typography[key]]}
+                    onValueChange={(value) =>
+                      setTypography({ ...typography, [key]: value[0] })
+                    }
+                  />
+                </div>
+                <Input
+                  type="number"
+                  min={SIZE_LIMITS[key].min}
+                  max={SIZE_LIMITS[key].max}
+                  value={typography[key]}
+                  onChange={(e) =>
+                    setTypography({
+                      ...typography,
+                      [key]: Math.min(
+                        SIZE_LIMITS[key].max,
+                        Math.max(SIZE_LIMITS[key].min, Number(e.target.value)),
+                      ),
+                    })
+                  }
+                  className="w-20"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <Checkbox
+            id="typographyAutoShrink"
+            checked={typography.autoShrink}
+            onCheckedChange={(checked) =>
+              setTypography({ ...typography, autoShrink: !!checked })
+            }
+          />
+          <Label
+            htmlFor="typographyAutoShrink"
+            className="text-sm cursor-pointer"
+          >
+            {t("typography.autoShrink")}
+          </Label>
+        </div>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
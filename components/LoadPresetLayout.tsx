@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Trash2, PlayCircle, Clock, Ratio, List, Search } from "lucide-react";
 import { Card } from "./ui/card";
+import { formatNumber } from "@/lib/numberFormat";
 
 type Preset = {
   id: string;
@@ -16,6 +17,7 @@ interface Props {
   presets: Preset[];
   onLoad: (preset: Preset) => void;
   onDelete: (id: string) => void;
+  locale?: string;
   t?: (key: string) => string;
 }
 
@@ -23,6 +25,7 @@ export default function LoadPresetLayout({
   presets,
   onLoad,
   onDelete,
+  locale,
   t = (key: string) => key,
 }: Props) {
   const [search, setSearch] = useState("");
@@ -112,7 +115,8 @@ export default function LoadPresetLayout({
               <div className="mt-3 text-xs text-zinc-400">
                 {preset.data.points.slice(0, 3).map((p: any, i: number) => (
                   <span key={i}>
-                    {p.value} @ {p.time}
+                    {formatNumber(p.value, preset.data.numberFormat, locale)} @{" "}
+                    {p.time}
                     {i !== Math.min(2, preset.data.points.length - 1) && " • "}
                   </span>
                 ))}
@@ -4,15 +4,63 @@ import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Annotation,
+  ChartType,
+  Easing,
+  SeriesConfig,
+  SeriesLabelStyle,
+  SpriteKind,
+  TimingConfig,
+} from "@/lib/scene";
+import { isValidCandle } from "@/lib/candles";
+import { BUILT_IN_SPRITES } from "@/lib/sprites";
+import { createAnnotation } from "@/lib/annotations";
 
 type Point = {
   value: number;
   time: string;
+  weight?: number;
+  dwell?: boolean;
+  note?: string;
+  open?: number;
+  high?: number;
+  low?: number;
 };
 
 type Props = {
   points: Point[];
-  updatePoint: (index: number, field: "value" | "time", value: string) => void;
+  seriesName: string;
+  setSeriesName: (v: string) => void;
+  series: SeriesConfig[];
+  setSeries: (v: SeriesConfig[]) => void;
+  activeSeries: number; // 0 is the main points
+  selectSeries: (index: number) => void;
+  addSeries: () => void;
+  deleteSeries: (index: number) => void;
+  chartType: ChartType;
+  setChartType: (v: ChartType) => void;
+  annotations: Annotation[];
+  setAnnotations: (v: Annotation[]) => void;
+  updatePoint: (
+    index: number,
+    field: "value" | "time" | "note" | "open" | "high" | "low",
+    value: string,
+  ) => void;
+  updatePointTiming: (
+    index: number,
+    changes: Pick<Point, "weight" | "dwell">,
+  ) => void;
+  timing: TimingConfig;
+  setTiming: (v: TimingConfig) => void;
   moveValue: (index: number, direction: "up" | "down") => void;
   deletePoint: (index: number) => void;
   addPoint: () => void;
@@ -22,7 +70,22 @@ type Props = {
 
 export default function PointsSection({
   points,
+  seriesName,
+  setSeriesName,
+  series,
+  setSeries,
+  activeSeries,
+  selectSeries,
+  addSeries,
+  deleteSeries,
+  chartType,
+  setChartType,
+  annotations,
+  setAnnotations,
   updatePoint,
+  updatePointTiming,
+  timing,
+  setTiming,
   moveValue,
   deletePoint,
   addPoint,
@@ -35,17 +98,163 @@ export default function PointsSection({
     return h * 60 + m;
   };
 
+  // Candles are only drawn for the main points
+  const candleMode = chartType === "candles" && activeSeries === 0;
+
+  const current = activeSeries > 0 ? series[activeSeries - 1] : null;
+
+  const updateCurrent = (changes: Partial<SeriesConfig>) =>
+    setSeries(
+      series.map((s, i) => (i === activeSeries - 1 ? { ...s, ...changes } : s)),
+    );
+
   return (
     <div className="space-y-4 tour-points">
       <Label className="text-base font-semibold text-zinc-800">
         {t("form.points")}
       </Label>
 
+      {/* Series tabs */}
+      <div className="flex flex-wrap items-center gap-2">
+        {[
+          { name: seriesName || t("series.main"), color: undefined },
+          ...series,
+        ].map((tab, index) => (
+          <Button
+            key={index}
+            size="sm"
+            variant={index === activeSeries ? "default" : "outline"}
+            onClick={() => selectSeries(index)}
+          >
+            {tab.color && (
+              <span
+                className="w-3 h-3 rounded-full"
+                style={{ backgroundColor: tab.color }}
+              />
+            )}
+            {tab.name || `${t("series.defaultName")} ${index + 1}`}
+          </Button>
+        ))}
+
+        <Button size="sm" variant="secondary" onClick={addSeries}>
+          + {t("series.add")}
+        </Button>
+      </div>
+
+      <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:items-end">
+        {/* Name */}
+        <div className="flex flex-col gap-2 md:w-48">
+          <Label className="text-sm text-zinc-700">{t("series.name")}</Label>
+          <Input
+            placeholder={current ? undefined : t("series.main")}
+            maxLength={30}
+            value={current ? current.name : seriesName}
+            onChange={(e) =>
+              current
+                ? updateCurrent({ name: e.target.value })
+                : setSeriesName(e.target.value)
+            }
+          />
+        </div>
+
+        {!current && (
+          <div className="flex flex-col gap-2 md:w-48">
+            <Label className="text-sm text-zinc-700">
+              {t("candles.chartType")}
+            </Label>
+            <Select
+              value={chartType}
+              onValueChange={(value) => setChartType(value as ChartType)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="line">{t("candles.line")}</SelectItem>
+                <SelectItem value="candles">{t("candles.candles")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {current && (
+          <>
+            <div className="flex flex-col gap-2">
+              <Label className="text-sm text-zinc-700">
+                {t("series.color")}
+              </Label>
+              <Input
+                type="color"
+                value={current.color}
+                onChange={(e) => updateCurrent({ color: e.target.value })}
+                className="w-20 p-1"
+              />
+            </div>
+
+            <div className="flex flex-col gap-2 md:w-40">
+              <Label className="text-sm text-zinc-700">
+                {t("series.sprite")}
+              </Label>
+              <Select
+                value={current.sprite.kind}
+                onValueChange={(value) =>
+                  updateCurrent({
+                    sprite: { ...current.sprite, kind: value as SpriteKind },
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(BUILT_IN_SPRITES).map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {t(`sprite.${kind}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex flex-col gap-2 md:w-48">
+              <Label className="text-sm text-zinc-700">
+                {t("series.labelStyle")}
+              </Label>
+              <Select
+                value={current.labelStyle}
+                onValueChange={(value) =>
+                  updateCurrent({ labelStyle: value as SeriesLabelStyle })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t("series.labelsAll")}</SelectItem>
+                  <SelectItem value="ends">{t("series.labelsEnds")}</SelectItem>
+                  <SelectItem value="none">{t("series.labelsNone")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => deleteSeries(activeSeries)}
+            >
+              <Trash2 className="w-4 h-4" />
+              {t("series.delete")}
+            </Button>
+          </>
+        )}
+      </div>
+
       {points.map((point, index) => {
         const isInvalid =
           index > 0 &&
-          timeToMinutes(point.time) <=
-            timeToMinutes(points[index - 1].time);
+          timeToMinutes(point.time) <= timeToMinutes(points[index - 1].time);
+
+        const candleInvalid = candleMode && !isValidCandle(point);
 
         return (
           <div key={index} className="space-y-4">
@@ -80,6 +289,7 @@ export default function PointsSection({
               <Input
                 type="text"
                 inputMode="decimal"
+                placeholder={candleMode ? t("candles.close") : undefined}
                 value={point.value === 0 ? "" : point.value}
                 onChange={(e) => updatePoint(index, "value", e.target.value)}
               />
@@ -102,6 +312,79 @@ export default function PointsSection({
               )}
             </div>
 
+            {/* Note, and timing of the segment leaving this point */}
+            <div className="flex flex-wrap items-center gap-6 md:pl-[136px]">
+              {candleMode &&
+                (["open", "high", "low"] as const).map((field) => (
+                  <div key={field} className="flex items-center gap-3">
+                    <Label className="text-sm text-zinc-500">
+                      {t(`candles.${field}`)}
+                    </Label>
+                    <Input
+                      type="text"
+                      inputMode="decimal"
+                      value={point[field] ?? ""}
+                      onChange={(e) =>
+                        updatePoint(index, field, e.target.value)
+                      }
+                      className={`w-24 ${candleInvalid ? "border-red-500" : ""}`}
+                    />
+                  </div>
+                ))}
+
+              <Input
+                placeholder={t("form.notePlaceholder")}
+                maxLength={60}
+                value={point.note || ""}
+                onChange={(e) => updatePoint(index, "note", e.target.value)}
+                className="md:w-56"
+              />
+
+              {index !== points.length - 1 && (
+                <div className="flex items-center gap-3">
+                  <Label className="text-sm text-zinc-500">
+                    {t("timing.weight")}
+                  </Label>
+                  <Input
+                    type="number"
+                    min={0.1}
+                    max={10}
+                    step={0.1}
+                    value={point.weight ?? 1}
+                    onChange={(e) =>
+                      updatePointTiming(index, {
+                        weight: Math.min(
+                          10,
+                          Math.max(0.1, Number(e.target.value)),
+                        ),
+                      })
+                    }
+                    className="w-20"
+                  />
+                </div>
+              )}
+
+              {index !== points.length - 1 &&
+                !timing.dwellAll &&
+                timing.dwellMs > 0 && (
+                  <div className="flex items-center space-x-3">
+                    <Checkbox
+                      id={`dwell-${index}`}
+                      checked={!!point.dwell}
+                      onCheckedChange={(checked) =>
+                        updatePointTiming(index, { dwell: !!checked })
+                      }
+                    />
+                    <Label
+                      htmlFor={`dwell-${index}`}
+                      className="text-sm cursor-pointer"
+                    >
+                      {t("timing.pauseHere")}
+                    </Label>
+                  </div>
+                )}
+            </div>
+
             {index !== points.length - 1 && (
               <div className="border-b border-zinc-200" />
             )}
@@ -111,6 +394,10 @@ export default function PointsSection({
 
       {timeError && <p className="text-sm text-red-500">{timeError}</p>}
 
+      {candleMode && !points.every(isValidCandle) && (
+        <p className="text-sm text-red-500">{t("candles.invalid")}</p>
+      )}
+
       <Button
         variant="secondary"
         onClick={addPoint}
@@ -119,6 +406,222 @@ export default function PointsSection({
       >
         + {t("form.addPoint")}
       </Button>
+
+      {/* ================= ANNOTATIONS ================= */}
+      {!current && (
+        <div className="space-y-4 pt-4">
+          <Label className="text-base font-semibold text-zinc-800">
+            {t("annotations.title")}
+          </Label>
+
+          {annotations.map((annotation, index) => {
+            const updateAnnotation = (changes: Partial<Annotation>) =>
+              setAnnotations(
+                annotations.map((a, i) =>
+                  i === index ? { ...a, ...changes } : a,
+                ),
+              );
+
+            return (
+              <div
+                key={index}
+                className="flex flex-col gap-4 md:flex-row md:flex-wrap md:items-end border-b border-zinc-200 pb-4"
+              >
+                <div className="flex flex-col gap-2 md:w-16">
+                  <Label className="text-sm text-zinc-700">
+                    {t("annotations.icon")}
+                  </Label>
+                  <Input
+                    maxLength={4}
+                    value={annotation.icon}
+                    onChange={(e) => updateAnnotation({ icon: e.target.value })}
+                  />
+                </div>
+
+                <div className="flex flex-col gap-2 md:w-56">
+                  <Label className="text-sm text-zinc-700">
+                    {t("annotations.text")}
+                  </Label>
+                  <Input
+                    placeholder={t("annotations.textPlaceholder")}
+                    maxLength={60}
+                    value={annotation.text}
+                    onChange={(e) => updateAnnotation({ text: e.target.value })}
+                  />
+                </div>
+
+                <div className="flex flex-col gap-2">
+                  <Label className="text-sm text-zinc-700">
+                    {t("annotations.color")}
+                  </Label>
+                  <Input
+                    type="color"
+                    value={annotation.color}
+                    onChange={(e) =>
+                      updateAnnotation({ color: e.target.value })
+                    }
+                    className="w-20 p-1"
+                  />
+                </div>
+
+                <div className="flex flex-col gap-2 md:w-36">
+                  <Label className="text-sm text-zinc-700">
+                    {t("annotations.anchor")}
+                  </Label>
+                  <Select
+                    value={annotation.anchorType}
+                    onValueChange={(value) =>
+                      updateAnnotation({
+                        anchorType: value as Annotation["anchorType"],
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="index">
+                        {t("annotations.byPoint")}
+                      </SelectItem>
+                      <SelectItem value="time">
+                        {t("annotations.byTime")}
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {annotation.anchorType === "index" ? (
+                  <div className="flex flex-col gap-2 md:w-32">
+                    <Label className="text-sm text-zinc-700">
+                      {t("form.point")}
+                    </Label>
+                    <Select
+                      value={String(annotation.index)}
+                      onValueChange={(value) =>
+                        updateAnnotation({ index: Number(value) })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {points.map((_, i) => (
+                          <SelectItem key={i} value={String(i)}>
+                            {t("form.point")} {i + 1}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <div className="flex flex-col gap-2 md:w-32">
+                    <Label className="text-sm text-zinc-700">
+                      {t("annotations.time")}
+                    </Label>
+                    <Input
+                      type="time"
+                      value={annotation.time}
+                      onChange={(e) =>
+                        updateAnnotation({ time: e.target.value })
+                      }
+                    />
+                  </div>
+                )}
+
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() =>
+                    setAnnotations(annotations.filter((_, i) => i !== index))
+                  }
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+
+          <Button
+            variant="secondary"
+            onClick={() =>
+              setAnnotations([
+                ...annotations,
+                createAnnotation(points.length - 1),
+              ])
+            }
+            className="w-full"
+          >
+            + {t("annotations.add")}
+          </Button>
+        </div>
+      )}
+
+      {/* ================= FLIGHT TIMING ================= */}
+      <div className="space-y-4 pt-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("timing.title")}
+        </Label>
+
+        <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+          {/* Easing */}
+          <div className="flex flex-col gap-2 md:w-48">
+            <Label className="text-sm text-zinc-700">
+              {t("timing.easing")}
+            </Label>
+            <Select
+              value={timing.easing}
+              onValueChange={(value) =>
+                setTiming({ ...timing, easing: value as Easing })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="linear">{t("timing.linear")}</SelectItem>
+                <SelectItem value="easeIn">{t("timing.easeIn")}</SelectItem>
+                <SelectItem value="easeOut">{t("timing.easeOut")}</SelectItem>
+                <SelectItem value="easeInOut">
+                  {t("timing.easeInOut")}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Dwell */}
+          <div className="flex flex-col gap-2 md:w-48">
+            <Label className="text-sm text-zinc-700">
+              {t("timing.dwellMs")}
+            </Label>
+            <Input
+              type="number"
+              min={0}
+              max={5000}
+              step={100}
+              value={timing.dwellMs}
+              onChange={(e) =>
+                setTiming({
+                  ...timing,
+                  dwellMs: Math.min(5000, Math.max(0, Number(e.target.value))),
+                })
+              }
+            />
+          </div>
+
+          <div className="flex items-center space-x-3 md:pb-2">
+            <Checkbox
+              id="dwellAll"
+              checked={timing.dwellAll}
+              onCheckedChange={(checked) =>
+                setTiming({ ...timing, dwellAll: !!checked })
+              }
+            />
+            <Label htmlFor="dwellAll" className="text-sm cursor-pointer">
+              {t("timing.dwellAll")}
+            </Label>
+          </div>
+        </div>
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { Pause, Play, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type Props = {
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  position: number; // ms
+  duration: number; // ms, whole timeline including the zoom-out
+  onSeek: (position: number) => void;
+  loop: boolean;
+  onLoopChange: (v: boolean) => void;
+  speed: number;
+  onSpeedChange: (v: number) => void;
+  t: (key: string) => string;
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export default function PreviewPlayer({
+  isPlaying,
+  onTogglePlay,
+  position,
+  duration,
+  onSeek,
+  loop,
+  onLoopChange,
+  speed,
+  onSpeedChange,
+  t,
+}: Props) {
+  return (
+    <div className="flex w-full items-center gap-3">
+      <Button
+        variant="outline"
+        size="icon"
+        className="h-9 w-9 shrink-0"
+        onClick={onTogglePlay}
+        aria-label={isPlaying ? t("player.pause") : t("player.play")}
+      >
+        {isPlaying ? (
+          <Pause className="w-4 h-4" />
+        ) : (
+          <Play className="w-4 h-4" />
+        )}
+      </Button>
+
+      <Slider
+        min={0}
+        max={duration}
+        step={1}
+        value={[position]}
+        onValueChange={(value) => onSeek(value[0])}
+        aria-label={t("player.seek")}
+      />
+
+      <span className="w-24 shrink-0 text-right text-xs tabular-nums text-zinc-500">
+        {formatSeconds(position)} / {formatSeconds(duration)}
+      </span>
+
+      <Button
+        variant={loop ? "secondary" : "ghost"}
+        size="icon"
+        className="h-9 w-9 shrink-0"
+        onClick={() => onLoopChange(!loop)}
+        aria-label={t("player.loop")}
+        aria-pressed={loop}
+      >
+        <Repeat className={loop ? "w-4 h-4" : "w-4 h-4 text-zinc-400"} />
+      </Button>
+
+      <Select
+        value={String(speed)}
+        onValueChange={(value) => onSpeedChange(Number(value))}
+      >
+        <SelectTrigger className="h-9 w-20 shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="0.5">0.5x</SelectItem>
+          <SelectItem value="1">1x</SelectItem>
+          <SelectItem value="2">2x</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
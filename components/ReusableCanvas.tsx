@@ -1,32 +1,57 @@
 "use client";
 
-import { useEffect, useRef, forwardRef, useImperativeHandle } from "react";
+import {
+  useEffect,
+  useRef,
+  useState,
+  forwardRef,
+  useImperativeHandle,
+} from "react";
 
 import { FFmpeg } from "@ffmpeg/ffmpeg";
 import { fetchFile } from "@ffmpeg/util";
 import { toast } from "sonner";
-
-interface Point {
-  value: number;
-  time: string;
-}
-
-interface WatermarkConfig {
-  enabled: boolean;
-  type: "image" | "text";
-  imageUrl?: string;
-  text?: string;
-  position:
-    | "top-left"
-    | "top-center"
-    | "top-right"
-    | "bottom-left"
-    | "bottom-center"
-    | "bottom-right";
-  sizeRatio: number;
-  opacity: number;
-  margin: number;
-}
+import {
+  Annotation,
+  BackgroundConfig,
+  CameraConfig,
+  CardsConfig,
+  ChartType,
+  computeGeometry,
+  computeScene,
+  EffectsConfig,
+  getTimelineDuration,
+  MARKER_RADIUS,
+  OutroConfig,
+  PathMode,
+  Point,
+  ReferenceLine,
+  Scene,
+  SceneConfig,
+  ScenePlane,
+  SceneText,
+  SeriesConfig,
+  SpriteConfig,
+  TickerConfig,
+  TimingConfig,
+  TypographyConfig,
+  WatermarkConfig,
+  XSpacing,
+  XAxisConfig,
+  YAxisConfig,
+} from "@/lib/scene";
+import { DEFAULT_THEME, Theme } from "@/lib/themes";
+import { BUILT_IN_SPRITES, DEFAULT_SPRITE, spriteSource } from "@/lib/sprites";
+import { DEFAULT_BACKGROUND } from "@/lib/backgrounds";
+import {
+  DEFAULT_FONTS,
+  FontSettings,
+  loadFonts,
+  sceneFonts,
+} from "@/lib/fonts";
+import { NumberFormatConfig } from "@/lib/numberFormat";
+import { LabelTemplates } from "@/lib/labelTemplates";
+import PreviewPlayer from "./PreviewPlayer";
 
 export interface ReusableCanvasProps {
   points: Point[];
@@ -41,10 +66,33 @@ export interface ReusableCanvasProps {
   t?: (key: string) => string;
   slidingEnabled?: boolean;
   minVisiblePoints?: number;
+  xSpacing?: XSpacing;
+  pathMode?: PathMode;
+  chartType?: ChartType;
+  timing?: TimingConfig;
+  camera?: CameraConfig;
+  numberFormat?: NumberFormatConfig;
+  labelTemplates?: LabelTemplates;
+  ticker?: TickerConfig;
+  referenceLines?: ReferenceLine[];
+  background?: BackgroundConfig;
+  typography?: TypographyConfig;
+  fonts?: FontSettings;
+  effects?: EffectsConfig;
+  outro?: OutroConfig;
+  cards?: CardsConfig;
+  annotations?: Annotation[];
+  locale?: string;
+  yAxis?: YAxisConfig;
+  xAxis?: XAxisConfig;
+  theme?: Theme;
+  sprite?: SpriteConfig;
+  seriesName?: string;
+  series?: SeriesConfig[];
 }
 
 export interface ReusableCanvasHandle {
-  startRecording: () => Promise<void>;
+  downloadWebm: () => Promise<void>;
   downloadMp4: () => Promise<void>;
 }
 
@@ -55,11 +103,647 @@ const ratioMap: Record<string, { width: number; height: number }> = {
   "4:5": { width: 1350, height: 1688 },
 };
 
-const formatAMPM = (time: string) => {
-  const [h, m] = time.split(":").map(Number);
-  const suffix = h >= 12 ? "PM" : "AM";
-  const hour = h % 12 || 12;
-  return `${hour}:${m.toString().padStart(2, "0")} ${suffix}`;
+// Effect colors that read on light and dark themes alike
+const CONTRAIL_COLOR = "#94a3b8";
+const SPARKLE_COLOR = "#facc15";
+
+// Exports are rendered offline at this rate, one frame per exact timestamp
+const EXPORT_FPS = 60;
+
+// JPEG keeps every frame a fraction of a PNG in ffmpeg's in-memory file
+// system, which has to hold the whole timeline before encoding
+const frameFileName = (index: number) =>
+  `frame_${index.toString().padStart(5, "0")}.jpg`;
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+const imageAspect = (img: HTMLImageElement | null) =>
+  img?.naturalWidth && img.naturalHeight
+    ? img.naturalWidth / img.naturalHeight
+    : undefined;
+
+// Sprite and its falling swap, loaded once per render
+type SpriteImages = {
+  image: HTMLImageElement;
+  falling: HTMLImageElement | null;
+};
+
+// Uploads the browser can't decode (HEIC and the like) end up as
+// `fallback` instead of failing the whole render
+const loadImageOr = <T,>(src: string, fallback: () => T | Promise<T>) =>
+  loadImage(src).catch(fallback);
+
+// A sprite upload that fails to decode flies the bundled plane instead
+const loadSprite = async (
+  sprite: SpriteConfig,
+  onError: () => void,
+): Promise<SpriteImages> => {
+  const load = (src: string) =>
+    loadImageOr(src, () => {
+      onError();
+      return loadImage(BUILT_IN_SPRITES.plane);
+    });
+
+  return {
+    image: await load(spriteSource(sprite.kind, sprite.imageUrl)),
+    falling: sprite.fallingEnabled
+      ? await load(spriteSource(sprite.fallingKind, sprite.fallingImageUrl))
+      : null,
+  };
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject()),
+      "image/jpeg",
+      0.92,
+    );
+  });
+
+/* ===============================
+     PAINTER
+  =============================== */
+
+const paintText = (ctx: CanvasRenderingContext2D, item: SceneText) => {
+  ctx.font = item.font;
+  ctx.textAlign = item.align;
+  ctx.fillText(item.text, item.x, item.y);
+};
+
+const paintPlane = (
+  ctx: CanvasRenderingContext2D,
+  plane: ScenePlane,
+  images: SpriteImages,
+) => {
+  ctx.save();
+  ctx.translate(plane.x, plane.y);
+  ctx.rotate(plane.angle);
+  ctx.drawImage(
+    plane.falling && images.falling ? images.falling : images.image,
+    -plane.width / 2,
+    -plane.height / 2,
+    plane.width,
+    plane.height,
+  );
+  ctx.restore();
+};
+
+const paintBackground = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  theme: Theme,
+  background: BackgroundConfig,
+  image: HTMLImageElement | null,
+) => {
+  ctx.fillStyle = theme.background;
+  ctx.fillRect(0, 0, width, height);
+
+  if (background.kind === "linear") {
+    // Gradient line through the centre, long enough to reach the corners
+    const angle = ((background.angle - 90) * Math.PI) / 180;
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+    const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+
+    const gradient = ctx.createLinearGradient(
+      width / 2 - dx * half,
+      height / 2 - dy * half,
+      width / 2 + dx * half,
+      height / 2 + dy * half,
+    );
+    gradient.addColorStop(0, background.from);
+    gradient.addColorStop(1, background.to);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  if (background.kind === "radial") {
+    const gradient = ctx.createRadialGradient(
+      width / 2,
+      height / 2,
+      0,
+      width / 2,
+      height / 2,
+      Math.hypot(width, height) / 2,
+    );
+    gradient.addColorStop(0, background.from);
+    gradient.addColorStop(1, background.to);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  if (background.kind === "image" && image) {
+    const fitScale = (background.fit === "cover" ? Math.max : Math.min)(
+      width / image.naturalWidth,
+      height / image.naturalHeight,
+    );
+    const drawWidth = image.naturalWidth * fitScale;
+    const drawHeight = image.naturalHeight * fitScale;
+
+    ctx.save();
+    if (background.blur > 0) ctx.filter = `blur(${background.blur}px)`;
+    ctx.drawImage(
+      image,
+      (width - drawWidth) / 2,
+      (height - drawHeight) / 2,
+      drawWidth,
+      drawHeight,
+    );
+    ctx.restore();
+
+    if (background.dim > 0) {
+      ctx.fillStyle = `rgba(0, 0, 0, ${background.dim})`;
+      ctx.fillRect(0, 0, width, height);
+    }
+  }
+};
+
+const paintScene = (
+  ctx: CanvasRenderingContext2D,
+  scene: Scene,
+  theme: Theme,
+  background: BackgroundConfig,
+  planeImages: SpriteImages,
+  seriesImages: SpriteImages[],
+  backgroundImage: HTMLImageElement | null,
+  watermarkImage: HTMLImageElement | null,
+) => {
+  const { width, height, camera } = scene;
+
+  ctx.clearRect(0, 0, width, height);
+  paintBackground(ctx, width, height, theme, background, backgroundImage);
+
+  // Parallax sky, three puffs per cloud
+  ctx.fillStyle = background.cloudColor;
+  scene.clouds.forEach(({ x, y, size, opacity }) => {
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.beginPath();
+    ctx.arc(x, y, size * 0.5, 0, Math.PI * 2);
+    ctx.arc(x - size * 0.5, y + size * 0.15, size * 0.35, 0, Math.PI * 2);
+    ctx.arc(x + size * 0.5, y + size * 0.15, size * 0.4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  });
+
+  // Header
+  ctx.fillStyle = theme.titleColor;
+  scene.title.forEach((line) => paintText(ctx, line));
+
+  ctx.fillStyle = theme.descriptionColor;
+  scene.description.forEach((line) => paintText(ctx, line));
+
+  // Y axis, screen space and under the path
+  if (scene.yAxis) {
+    const { yAxis } = scene;
+
+    ctx.font = yAxis.font;
+    ctx.textAlign = "right";
+    ctx.textBaseline = "middle";
+
+    yAxis.ticks.forEach((tick) => {
+      if (yAxis.gridlines) {
+        ctx.beginPath();
+        ctx.moveTo(yAxis.gridLeft, tick.y);
+        ctx.lineTo(yAxis.gridRight, tick.y);
+        ctx.strokeStyle = yAxis.gridColor;
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+
+      ctx.fillStyle = yAxis.labelColor;
+      ctx.fillText(tick.label, yAxis.labelX, tick.y);
+    });
+
+    ctx.textBaseline = "alphabetic";
+  }
+
+  // Time axis along the bottom
+  if (scene.xAxis) {
+    const { xAxis } = scene;
+
+    ctx.strokeStyle = xAxis.lineColor;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(xAxis.left, xAxis.y);
+    ctx.lineTo(xAxis.right, xAxis.y);
+    ctx.stroke();
+
+    ctx.font = xAxis.font;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "top";
+    ctx.fillStyle = xAxis.labelColor;
+
+    xAxis.ticks.forEach((tick) => {
+      ctx.beginPath();
+      ctx.moveTo(tick.x, xAxis.y);
+      ctx.lineTo(tick.x, xAxis.y + 12);
+      ctx.stroke();
+
+      ctx.fillText(tick.label, tick.x, xAxis.y + 18);
+    });
+
+    ctx.textBaseline = "alphabetic";
+  }
+
+  // Reference levels, bands first so every line stays visible
+  scene.referenceLines.forEach(({ band, left, right, color }) => {
+    if (!band) return;
+
+    ctx.save();
+    ctx.globalAlpha = 0.12;
+    ctx.fillStyle = color;
+    ctx.fillRect(left, band.top, right - left, band.bottom - band.top);
+    ctx.restore();
+  });
+
+  scene.referenceLines.forEach((line) => {
+    ctx.strokeStyle = line.color;
+    ctx.lineWidth = 3;
+    ctx.setLineDash(line.dash);
+    ctx.beginPath();
+    ctx.moveTo(line.left, line.y);
+    ctx.lineTo(line.right, line.y);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = line.color;
+    paintText(ctx, line.label);
+  });
+
+  // Graph transform
+  ctx.save();
+  ctx.translate(camera.translateX, camera.translateY);
+  ctx.scale(camera.scale, camera.scale);
+
+  // Candles, under the path the plane flies along
+  scene.candles.forEach((candle) => {
+    const color = candle.rising ? theme.upStroke : theme.downStroke;
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(candle.x, candle.wickTop);
+    ctx.lineTo(candle.x, candle.wickBottom);
+    ctx.stroke();
+
+    ctx.fillStyle = color;
+    ctx.fillRect(
+      candle.x - candle.width / 2,
+      candle.bodyTop,
+      candle.width,
+      Math.max(candle.bodyBottom - candle.bodyTop, 2),
+    );
+  });
+
+  // Glow under the segment the plane is flying
+  const { effects } = scene;
+  if (effects.glow) {
+    const color = effects.glow.rising ? theme.upStroke : theme.downStroke;
+
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.shadowColor = color;
+    ctx.shadowBlur = effects.glow.blur;
+    ctx.lineWidth = 10;
+    ctx.lineCap = "round";
+    ctx.globalAlpha = 0.6;
+    ctx.beginPath();
+    effects.glow.points.forEach((p, i) =>
+      i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y),
+    );
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Path, extra series under the main one
+  ctx.lineWidth = 6;
+  ctx.lineCap = "round";
+  ctx.setLineDash([16, 10]);
+
+  scene.series.forEach((series) => {
+    ctx.strokeStyle = series.color;
+    series.path.forEach((segment) => {
+      ctx.beginPath();
+      segment.points.forEach((p, i) =>
+        i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y),
+      );
+      ctx.stroke();
+    });
+  });
+
+  scene.path.forEach((segment) => {
+    ctx.strokeStyle = segment.rising ? theme.upStroke : theme.downStroke;
+    ctx.beginPath();
+    segment.points.forEach((p, i) =>
+      i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y),
+    );
+    ctx.stroke();
+  });
+
+  ctx.setLineDash([]);
+
+  scene.series.forEach((series) => {
+    ctx.fillStyle = series.color;
+    series.markers.forEach((p) => {
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, MARKER_RADIUS, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  });
+
+  scene.markers.forEach((p) => {
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, MARKER_RADIUS, 0, Math.PI * 2);
+    ctx.fillStyle = theme.marker;
+    ctx.fill();
+  });
+
+  ctx.strokeStyle = theme.marker;
+  ctx.lineWidth = 3;
+  effects.pulses.forEach(({ x, y, radius, opacity }) => {
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  });
+
+  ctx.fillStyle = CONTRAIL_COLOR;
+  effects.contrail.forEach(({ x, y, radius, opacity }) => {
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  });
+
+  // Labels
+  scene.labels.forEach((label) => {
+    const { anchor, leader, box, padding, lineHeight } = label;
+
+    ctx.beginPath();
+    ctx.moveTo(anchor.x, anchor.y);
+    ctx.lineTo(leader.x, leader.y);
+    ctx.strokeStyle = theme.leaderLine;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    // 90% opacity background
+    ctx.save();
+    ctx.globalAlpha = 0.9;
+    ctx.fillStyle =
+      label.kind === "start"
+        ? theme.labelStartBg
+        : label.kind === "final"
+          ? theme.labelFinalBg
+          : theme.labelMiddleBg;
+    ctx.fillRect(box.left, box.top, box.right - box.left, box.bottom - box.top);
+    ctx.restore();
+
+    if (label.color) {
+      ctx.strokeStyle = label.color;
+      ctx.lineWidth = 3;
+      ctx.strokeRect(
+        box.left,
+        box.top,
+        box.right - box.left,
+        box.bottom - box.top,
+      );
+    }
+
+    // Text fully solid
+    ctx.fillStyle = theme.labelText;
+    ctx.font = label.font;
+    ctx.textAlign = "center";
+
+    const centerX = (box.left + box.right) / 2;
+    label.lines.forEach((line, i) => {
+      ctx.fillText(line, centerX, box.top + padding + lineHeight * (i + 0.8));
+    });
+  });
+
+  // Callouts, scaled around the end of their leader while popping in
+  scene.callouts.forEach(({ anchor, leader, box, text, color, scale }) => {
+    ctx.beginPath();
+    ctx.moveTo(anchor.x, anchor.y);
+    ctx.lineTo(
+      anchor.x + (leader.x - anchor.x) * Math.min(scale, 1),
+      anchor.y + (leader.y - anchor.y) * Math.min(scale, 1),
+    );
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 3;
+    ctx.stroke();
+
+    ctx.save();
+    ctx.translate(leader.x, leader.y);
+    ctx.scale(scale, scale);
+    ctx.translate(-leader.x, -leader.y);
+
+    ctx.beginPath();
+    ctx.roundRect(
+      box.left,
+      box.top,
+      box.right - box.left,
+      box.bottom - box.top,
+      (box.bottom - box.top) / 2,
+    );
+    ctx.fillStyle = color;
+    ctx.fill();
+
+    ctx.fillStyle = "#ffffff";
+    paintText(ctx, text);
+    ctx.restore();
+  });
+
+  ctx.fillStyle = SPARKLE_COLOR;
+  effects.sparkles.forEach(({ x, y, radius, opacity }) => {
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  });
+
+  // Planes, the main one on top
+  scene.series.forEach((series, i) =>
+    paintPlane(ctx, series.plane, seriesImages[i]),
+  );
+  paintPlane(ctx, scene.plane, planeImages);
+
+  ctx.restore();
+
+  // Legend
+  if (scene.legend) {
+    const { box, entries } = scene.legend;
+
+    ctx.save();
+    ctx.globalAlpha = 0.9;
+    ctx.fillStyle = theme.labelMiddleBg;
+    ctx.fillRect(box.left, box.top, box.right - box.left, box.bottom - box.top);
+    ctx.restore();
+
+    entries.forEach(({ swatch, text, color }) => {
+      ctx.fillStyle = color ?? theme.upStroke;
+      ctx.fillRect(
+        swatch.left,
+        swatch.top,
+        swatch.right - swatch.left,
+        swatch.bottom - swatch.top,
+      );
+
+      ctx.fillStyle = theme.labelText;
+      paintText(ctx, text);
+    });
+  }
+
+  // Value ticker
+  if (scene.ticker) {
+    const { box, value, change, rising } = scene.ticker;
+
+    ctx.save();
+    ctx.globalAlpha = 0.9;
+    ctx.fillStyle = theme.labelMiddleBg;
+    ctx.fillRect(box.left, box.top, box.right - box.left, box.bottom - box.top);
+    ctx.restore();
+
+    ctx.fillStyle = theme.labelText;
+    paintText(ctx, value);
+    ctx.fillStyle = rising ? theme.upStroke : theme.downStroke;
+    paintText(ctx, change);
+  }
+
+  // Outro: dim, falling pieces, then the summary card on top
+  if (scene.outro) {
+    const { dim, confetti, summary } = scene.outro;
+
+    if (dim > 0) {
+      ctx.fillStyle = `rgba(0, 0, 0, ${dim})`;
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    confetti.forEach((piece) => {
+      ctx.save();
+      ctx.globalAlpha = piece.opacity;
+      ctx.translate(piece.x, piece.y);
+      ctx.rotate(piece.angle);
+      ctx.fillStyle = piece.color;
+      ctx.fillRect(
+        -piece.width / 2,
+        -piece.height / 2,
+        piece.width,
+        piece.height,
+      );
+      ctx.restore();
+    });
+
+    if (summary) {
+      const { box, title, rows, rising, opacity } = summary;
+
+      ctx.save();
+      ctx.globalAlpha = opacity;
+
+      ctx.beginPath();
+      ctx.roundRect(
+        box.left,
+        box.top,
+        box.right - box.left,
+        box.bottom - box.top,
+        24,
+      );
+      ctx.fillStyle = theme.labelMiddleBg;
+      ctx.fill();
+      ctx.strokeStyle = rising ? theme.upStroke : theme.downStroke;
+      ctx.lineWidth = 4;
+      ctx.stroke();
+
+      ctx.fillStyle = theme.labelText;
+      paintText(ctx, title);
+
+      rows.forEach((row) => {
+        ctx.fillStyle = theme.labelText;
+        paintText(ctx, row.label);
+        ctx.fillStyle = row.rising ? theme.upStroke : theme.downStroke;
+        paintText(ctx, row.value);
+      });
+
+      ctx.restore();
+    }
+  }
+
+  // Watermark
+  const { watermark } = scene;
+  if (watermark) {
+    ctx.save();
+    ctx.globalAlpha = watermark.opacity;
+
+    if (watermark.type === "image" && watermarkImage) {
+      ctx.drawImage(
+        watermarkImage,
+        watermark.x,
+        watermark.y,
+        watermark.width,
+        watermark.height,
+      );
+    }
+
+    if (watermark.type === "text") {
+      ctx.fillStyle = theme.titleColor;
+      paintText(ctx, watermark);
+    }
+
+    ctx.restore();
+  }
+
+  // Intro / outro card, covers the whole canvas
+  const { card } = scene;
+  if (card) {
+    ctx.save();
+    ctx.globalAlpha = card.opacity;
+    ctx.translate(0, card.offsetY);
+
+    ctx.fillStyle = card.background;
+    ctx.fillRect(0, 0, width, height);
+
+    if (card.logo && watermarkImage) {
+      const { x, y, width: logoWidth, height: logoHeight } = card.logo;
+      ctx.drawImage(watermarkImage, x, y, logoWidth, logoHeight);
+    }
+
+    ctx.fillStyle = card.color;
+    card.title.forEach((line) => paintText(ctx, line));
+    card.subtitle.forEach((line) => paintText(ctx, line));
+
+    // CTA pill in the text color, its label in the card color
+    if (card.cta) {
+      const { box, text } = card.cta;
+      ctx.beginPath();
+      ctx.roundRect(
+        box.left,
+        box.top,
+        box.right - box.left,
+        box.bottom - box.top,
+        (box.bottom - box.top) / 2,
+      );
+      ctx.fill();
+
+      ctx.fillStyle = card.background;
+      paintText(ctx, text);
+    }
+
+    ctx.restore();
+  }
 };
 
 const ReusableCanvas = forwardRef<ReusableCanvasHandle, ReusableCanvasProps>(
@@ -76,641 +760,366 @@ const ReusableCanvas = forwardRef<ReusableCanvasHandle, ReusableCanvasProps>(
       labelFontWeight = "700",
       slidingEnabled = false,
       minVisiblePoints = 5,
+      xSpacing = "index",
+      pathMode = "straight",
+      chartType = "line",
+      timing,
+      camera,
+      numberFormat,
+      labelTemplates,
+      ticker,
+      referenceLines,
+      background = DEFAULT_BACKGROUND,
+      typography,
+      fonts = DEFAULT_FONTS,
+      effects,
+      outro,
+      cards,
+      annotations,
+      locale,
+      yAxis,
+      xAxis,
+      theme = DEFAULT_THEME,
+      sprite = DEFAULT_SPRITE,
+      seriesName,
+      series = [],
       t = (key: string) => key,
     },
     ref,
   ) => {
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const ffmpegRef = useRef(new FFmpeg());
+    const previewFrameRef = useRef(0);
+    const previewRunRef = useRef(0);
+
+    // Preview player: playback runs off refs, state only mirrors it for the UI
+    const drawFrameRef = useRef<((elapsed: number) => void) | null>(null);
+    const timelineRef = useRef(0);
+    const playheadRef = useRef(0);
+    const loopRef = useRef(false);
+    const speedRef = useRef(1);
+
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [playhead, setPlayhead] = useState(0);
+    const [loop, setLoop] = useState(false);
+    const [speed, setSpeed] = useState(1);
+
+    // Total length of the rendered video: cards, flight, zoom-out, outro
+    // and the final hold
+    const timelineDuration = getTimelineDuration({
+      duration,
+      camera,
+      outro,
+      cards,
+    });
+
+    /*
+      Builds a frame painter for the current config.
+      drawFrame(elapsed) always paints the same image for the same
+      timestamp, so it can be driven by requestAnimationFrame for the
+      preview or stepped frame by frame for exports.
+    */
+    const createFrameRenderer = async (
+      ctx: CanvasRenderingContext2D,
+      width: number,
+      height: number,
+    ) => {
+      // Text is measured while laying out, so fonts must be ready first
+      await loadFonts(fonts);
+
+      const spriteFailed = () => toast.error(t("toast.spriteImageFailed"));
+      const planeImages = await loadSprite(sprite, spriteFailed);
+      const seriesImages = await Promise.all(
+        series.map((s) => loadSprite(s.sprite, spriteFailed)),
+      );
+      const watermarkImage =
+        watermark?.type === "image" && watermark.imageUrl
+          ? await loadImageOr(watermark.imageUrl, () => {
+              toast.error(t("toast.watermarkImageFailed"));
+              return null;
+            })
+          : null;
+      const backgroundImage =
+        background.kind === "image" && background.imageUrl
+          ? await loadImageOr(background.imageUrl, () => {
+              toast.error(t("toast.backgroundImageFailed"));
+              return null;
+            })
+          : null;
+
+      const config: SceneConfig = {
+        points,
+        width,
+        height,
+        duration,
+        title,
+        description,
+        watermark,
+        watermarkAspect: imageAspect(watermarkImage),
+        labelFontSize,
+        labelFontWeight,
+        slidingEnabled,
+        minVisiblePoints,
+        xSpacing,
+        pathMode,
+        chartType,
+        timing,
+        camera,
+        numberFormat,
+        labelTemplates,
+        ticker,
+        referenceLines,
+        background,
+        typography,
+        fonts: sceneFonts(fonts),
+        effects,
+        outro,
+        cards,
+        summaryText: {
+          title: t("outro.summaryTitle"),
+          change: t("outro.change"),
+          percent: t("outro.percent"),
+          drawdown: t("outro.drawdown"),
+        },
+        annotations,
+        locale,
+        yAxis,
+        xAxis,
+        sprite,
+        spriteAspect: imageAspect(planeImages.image),
+        fallingSpriteAspect: imageAspect(planeImages.falling),
+        seriesName: seriesName || t("series.main"),
+        series,
+        seriesSpriteAspects: seriesImages.map((images) => ({
+          aspect: imageAspect(images.image),
+          fallingAspect: imageAspect(images.falling),
+        })),
+        labelText: {
+          start: t("label.start"),
+          finalDestination: t("label.finalDestination"),
+        },
+        measureText: (text, font) => {
+          ctx.font = font;
+          return ctx.measureText(text).width;
+        },
+      };
+
+      // Placed labels and sampled paths are the same on every frame
+      const geometry = computeGeometry(config);
+
+      return function drawFrame(elapsed: number) {
+        const scene = computeScene(
+          config,
+          elapsed / timelineDuration,
+          geometry,
+        );
+        paintScene(
+          ctx,
+          scene,
+          theme,
+          background,
+          planeImages,
+          seriesImages,
+          backgroundImage,
+          watermarkImage,
+        );
+      };
+    };
 
-    // Preload watermark image if needed
-    const watermarkImageRef = useRef<HTMLImageElement | null>(null);
-
-    useEffect(() => {
-      if (watermark?.type === "image" && watermark.imageUrl) {
-        const img = new Image();
-        img.src = watermark.imageUrl;
-        watermarkImageRef.current = img;
-      }
-    }, [watermark]);
-
-    const recordAnimation = async (downloadWebm: boolean): Promise<Blob> => {
-      return new Promise((resolve) => {
-        const canvas = canvasRef.current!;
-        const ctx = canvas.getContext("2d")!;
-        const { width, height } = ratioMap[aspectRatio];
-
-        canvas.width = width;
-        canvas.height = height;
-
-        // -------------------------
-        // SAFE PADDING SYSTEM
-        // -------------------------
-        let headerHeight = 120;
-        let watermarkTopOffset = 0;
-        let watermarkBottomOffset = 0;
-
-        // -------------------------
-        // PRECALCULATE WATERMARK SIZE FOR SAFE LAYOUT
-        // -------------------------
-
-        if (watermark?.enabled) {
-          const maxWidth = width * watermark.sizeRatio;
-
-          let wmHeight = 0;
-
-          if (
-            watermark.type === "image" &&
-            watermarkImageRef.current?.naturalWidth
-          ) {
-            const img = watermarkImageRef.current;
-            const aspect = img.naturalWidth / img.naturalHeight;
-            wmHeight = maxWidth / aspect;
-          }
-
-          if (watermark.type === "text" && watermark.text) {
-            const fontSize = width * watermark.sizeRatio * 0.2;
-            ctx.font = `500 ${fontSize}px Inter`;
-            wmHeight = fontSize;
-          }
-
-          if (watermark.position.startsWith("top")) {
-            watermarkTopOffset = wmHeight + watermark.margin * 0.5;
-          }
-
-          if (watermark.position.startsWith("bottom")) {
-            watermarkBottomOffset = wmHeight + watermark.margin * 0.5;
-          }
-        }
-
-        headerHeight += watermarkTopOffset;
-
-        if (title) headerHeight += 140;
-        if (description) headerHeight += 110;
-
-        const gapBelowHeader = 120;
-
-        /*
-  Dynamic padding calculation
-  --------------------------------
-  Base safe zone + scaling based on label size
-*/
-
-        // Bottom padding scales more aggressively
-        const baseBottom = watermark?.enabled ? 350 : 280;
-        const dynamicBottomPadding = baseBottom + labelFontSize * 6;
-
-        const baseSide = 200;
-        const dynamicSidePadding = baseSide + labelFontSize * 2;
-
-        // Plane compensation (optical balance)
-        const planeSize = 110; // same value used later
-        const planeCompensation = planeSize / 2;
-
-        // Small visual adjustment (tweakable)
-        const opticalAdjustment = 20;
-
-        const leftPadding = dynamicSidePadding;
-        const rightPadding =
-          dynamicSidePadding + planeCompensation + opticalAdjustment;
-
-        const bottomPadding = dynamicBottomPadding + watermarkBottomOffset;
-
-        const chartTop = headerHeight + gapBelowHeader;
-        const chartBottom = height - bottomPadding;
-
-        const chartLeft = leftPadding;
-        const chartRight = width - rightPadding;
-
-        const graphWidth = chartRight - chartLeft;
-        const graphHeight = chartBottom - chartTop;
-
-        // -------------------------
-        // SCALE DATA
-        // -------------------------
-
-        const times = points.map((p) => {
-          const [h, m] = p.time.split(":").map(Number);
-          return h * 60 + m;
-        });
-
-        const minTime = Math.min(...times);
-        const maxTime = Math.max(...times);
-
-        const maxValue = Math.max(...points.map((p) => p.value));
-        const minValue = Math.min(...points.map((p) => p.value));
-
-        const calculatedPoints = points.map((point, i) => {
-          const x =
-            chartLeft +
-            ((times[i] - minTime) / (maxTime - minTime || 1)) * graphWidth;
-
-          const y =
-            chartTop +
-            graphHeight -
-            ((point.value - minValue) / (maxValue - minValue || 1)) *
-              graphHeight;
-
-          return {
-            x,
-            y,
-            value: point.value,
-            time: formatAMPM(point.time),
-          };
-        });
-
-        const segments: number[] = [];
-        let totalLength = 0;
-
-        for (let i = 0; i < calculatedPoints.length - 1; i++) {
-          const dx = calculatedPoints[i + 1].x - calculatedPoints[i].x;
-          const dy = calculatedPoints[i + 1].y - calculatedPoints[i].y;
-          const len = Math.sqrt(dx * dx + dy * dy);
-          segments.push(len);
-          totalLength += len;
-        }
-
-        const planeImage = new Image();
-        planeImage.src = "/airplane.png";
-
-        planeImage.onload = () => {
-          const stream = canvas.captureStream(60);
-          const recorder = new MediaRecorder(stream, {
-            mimeType: "video/webm",
-          });
-
-          const chunks: BlobPart[] = [];
-
-          recorder.ondataavailable = (e) => {
-            if (e.data.size > 0) chunks.push(e.data);
-          };
-
-          recorder.onstop = () => {
-            const blob = new Blob(chunks, {
-              type: "video/webm",
-            });
-
-            if (downloadWebm) {
-              const url = URL.createObjectURL(blob);
-              const a = document.createElement("a");
-              a.href = url;
-              a.download = generateFileName("webm");
-              a.click();
-            }
-
-            resolve(blob);
-          };
-
-          recorder.start();
-
-          const animationDuration = duration * 1000;
-          const startTime = performance.now();
-
-          function drawLabelBox(
-            x: number,
-            y: number,
-            lines: string[],
-            bg: string,
-          ) {
-            ctx.font = `${labelFontWeight} ${labelFontSize}px Inter, sans-serif`;
-
-            ctx.textAlign = "center";
-            const padding = 14;
-            const lineHeight = labelFontSize * 1.4;
-
-            const boxWidth =
-              Math.max(...lines.map((l) => ctx.measureText(l).width)) +
-              padding * 2;
-
-            const boxHeight = lines.length * lineHeight + padding * 2;
-
-            // Save current state
-            ctx.save();
-
-            // 80% opacity background
-            ctx.globalAlpha = 0.9;
-            ctx.fillStyle = bg;
-            ctx.fillRect(x - boxWidth / 2, y, boxWidth, boxHeight);
-
-            // Restore full opacity
-            ctx.restore();
-
-            // Text fully solid
-            ctx.fillStyle = "#111";
-
-            lines.forEach((line, i) => {
-              ctx.fillText(line, x, y + padding + lineHeight * (i + 0.8));
-            });
-          }
-          function animate(now: number) {
-            const elapsed = now - startTime;
-            const progress = Math.min(elapsed / animationDuration, 1);
-
-            /* ===============================
-     ZOOM OUT PHASE CONTROL
-  =============================== */
-
-            const zoomDuration = 1200;
-            const slideFinished = progress >= 1;
-
-            const zoomProgress = slideFinished
-              ? Math.min((elapsed - animationDuration) / zoomDuration, 1)
-              : 0;
-
-            const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
-
-            ctx.clearRect(0, 0, width, height);
-            ctx.fillStyle = "#fff";
-            ctx.fillRect(0, 0, width, height);
-
-            const totalPoints = points.length;
-
-            const visibleCount = slidingEnabled
-              ? Math.max(2, Math.min(minVisiblePoints, totalPoints))
-              : totalPoints;
-
-            const virtualGraphWidth =
-              slidingEnabled && totalPoints > visibleCount
-                ? (graphWidth / (visibleCount - 1)) * (totalPoints - 1)
-                : graphWidth;
-
-            const maxValue = Math.max(...points.map((p) => p.value));
-            const minValue = Math.min(...points.map((p) => p.value));
-
-            const calculatedPoints = points.map((point, i) => {
-              const x =
-                chartLeft + (i / (totalPoints - 1 || 1)) * virtualGraphWidth;
-
-              const y =
-                chartTop +
-                graphHeight -
-                ((point.value - minValue) / (maxValue - minValue || 1)) *
-                  graphHeight;
-
-              return {
-                x,
-                y,
-                value: point.value,
-                time: formatAMPM(point.time),
-              };
-            });
-
-            const segments: number[] = [];
-            let totalLength = 0;
-
-            for (let i = 0; i < calculatedPoints.length - 1; i++) {
-              const dx = calculatedPoints[i + 1].x - calculatedPoints[i].x;
-              const dy = calculatedPoints[i + 1].y - calculatedPoints[i].y;
-              const len = Math.sqrt(dx * dx + dy * dy);
-              segments.push(len);
-              totalLength += len;
-            }
-
-            /* ===============================
-     PLANE POSITION
-  =============================== */
-
-            let planeX = calculatedPoints[0].x;
-            let planeY = calculatedPoints[0].y;
-            let angle = 0;
-            let remainPlane = totalLength * progress;
-
-            for (let i = 0; i < segments.length; i++) {
-              if (remainPlane <= 0) break;
-
-              const start = calculatedPoints[i];
-              const end = calculatedPoints[i + 1];
-              const seg = segments[i];
-
-              if (remainPlane >= seg) {
-                remainPlane -= seg;
-                planeX = end.x;
-                planeY = end.y;
-                angle = Math.atan2(end.y - start.y, end.x - start.x);
-              } else {
-                const r = remainPlane / seg;
-                planeX = start.x + (end.x - start.x) * r;
-                planeY = start.y + (end.y - start.y) * r;
-                angle = Math.atan2(end.y - start.y, end.x - start.x);
-                break;
-              }
-            }
-
-            /* ===============================
-     CAMERA FOLLOW
-  =============================== */
-
-            let cameraOffsetX = 0;
-
-            const leftBoundary = calculatedPoints[0].x;
-            const rightBoundary =
-              calculatedPoints[calculatedPoints.length - 1].x;
-
-            const totalTraverseWidth = rightBoundary - leftBoundary;
-
-            if (slidingEnabled && totalPoints > visibleCount) {
-              const totalScrollableWidth = rightBoundary - chartLeft;
-
-              const maxCameraOffset = totalScrollableWidth - graphWidth;
-
-              if (maxCameraOffset > 0) {
-                const targetOffset = planeX - chartLeft - graphWidth / 2;
-
-                cameraOffsetX = Math.max(
-                  0,
-                  Math.min(targetOffset, maxCameraOffset),
-                );
-              }
-            }
-
-            /* ===============================
-     HEADER + WATERMARK
-  =============================== */
-
-            if (watermark?.enabled && watermark.position.startsWith("top")) {
-              drawWatermark();
-            }
-
-            let headerCursor = watermarkTopOffset
-              ? 60 + watermarkTopOffset
-              : 120;
-
-            if (title) {
-              ctx.fillStyle = "#111";
-              ctx.font = "bold 72px Inter, sans-serif";
-              ctx.textAlign = "center";
-              ctx.fillText(title, width / 2, headerCursor);
-              headerCursor += 90;
-            }
-
-            if (description) {
-              ctx.fillStyle = "#555";
-              ctx.font = "40px Inter";
-              ctx.fillText(description, width / 2, headerCursor);
-            }
-
-            /* ===============================
-     GRAPH TRANSFORM
+    /* ===============================
+     PREVIEW (REAL-TIME)
   =============================== */
 
-            ctx.save();
+    const seekPreview = (elapsed: number) => {
+      playheadRef.current = elapsed;
+      drawFrameRef.current?.(elapsed);
+      setPlayhead(elapsed);
+    };
 
-            if (slidingEnabled && slideFinished && totalTraverseWidth > 0) {
-              // Fit to almost full canvas width (remove graph padding effect)
-              const usableCanvasWidth =
-                points.length <= 10 ? width * 0.85 : width * 0.9; // 2% margin each side
+    const pausePreview = () => {
+      cancelAnimationFrame(previewFrameRef.current);
+      setIsPlaying(false);
+    };
 
-              const fitScale = usableCanvasWidth / totalTraverseWidth;
-              const eased = easeOutCubic(zoomProgress);
+    const resumePreview = () => {
+      cancelAnimationFrame(previewFrameRef.current);
 
-              const animatedScale = 1 + (fitScale - 1) * eased;
+      const total = timelineRef.current;
 
-              const traverseCenter = leftBoundary + totalTraverseWidth / 2;
+      // Play again from the start once the end was reached
+      if (playheadRef.current >= total) playheadRef.current = 0;
 
-              const canvasCenterX = width / 2;
-              const canvasCenterY = chartTop + graphHeight / 2;
+      let lastTime = performance.now();
 
-              ctx.translate(canvasCenterX, canvasCenterY);
-              ctx.scale(animatedScale, animatedScale); // uniform scale
-              ctx.translate(-traverseCenter, -canvasCenterY);
-            } else {
-              ctx.translate(-cameraOffsetX, 0);
-            }
+      const tick = (now: number) => {
+        let elapsed = playheadRef.current + (now - lastTime) * speedRef.current;
+        let finished = false;
+        lastTime = now;
 
-            /* ===============================
-     DRAW PATH
-  =============================== */
+        if (elapsed >= total) {
+          if (loopRef.current) {
+            elapsed %= total;
+          } else {
+            elapsed = total;
+            finished = true;
+          }
+        }
 
-            ctx.lineWidth = 6;
-            ctx.lineCap = "round";
-            ctx.setLineDash([16, 10]);
+        seekPreview(elapsed);
 
-            let remaining = totalLength * progress;
+        if (finished) {
+          setIsPlaying(false);
+        } else {
+          previewFrameRef.current = requestAnimationFrame(tick);
+        }
+      };
 
-            for (let i = 0; i < segments.length; i++) {
-              if (remaining <= 0) break;
+      setIsPlaying(true);
+      previewFrameRef.current = requestAnimationFrame(tick);
+    };
 
-              const start = calculatedPoints[i];
-              const end = calculatedPoints[i + 1];
-              const seg = segments[i];
+    const loadPreview = async () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
 
-              ctx.strokeStyle =
-                end.value >= start.value ? "#16a34a" : "#dc2626";
+      const runId = ++previewRunRef.current;
+      cancelAnimationFrame(previewFrameRef.current);
 
-              ctx.beginPath();
-              ctx.moveTo(start.x, start.y);
+      const { width, height } = ratioMap[aspectRatio];
+      canvas.width = width;
+      canvas.height = height;
 
-              if (remaining >= seg) {
-                ctx.lineTo(end.x, end.y);
-                remaining -= seg;
-              } else {
-                const r = remaining / seg;
-                ctx.lineTo(
-                  start.x + (end.x - start.x) * r,
-                  start.y + (end.y - start.y) * r,
-                );
-                remaining = 0;
-              }
+      const drawFrame = await createFrameRenderer(
+        canvas.getContext("2d")!,
+        width,
+        height,
+      );
 
-              ctx.stroke();
-            }
+      // A newer preview started while the plane image was loading
+      if (runId !== previewRunRef.current) return;
 
-            ctx.setLineDash([]);
+      drawFrameRef.current = drawFrame;
+      timelineRef.current = timelineDuration;
 
-            calculatedPoints.forEach((p) => {
-              ctx.beginPath();
-              ctx.arc(p.x, p.y, 12, 0, Math.PI * 2);
-              ctx.fillStyle = "#000";
-              ctx.fill();
-            });
+      seekPreview(0);
+      resumePreview();
+    };
 
-            /* ===============================
-     LABELS (RESTORED)
+    /* ===============================
+     EXPORT (FRAME-EXACT)
   =============================== */
 
-            const placedLabels: any[] = [];
-            const baseOffset = 40;
-            const spacing = 12;
-
-            calculatedPoints.forEach((p, index) => {
-              ctx.font = `${labelFontWeight} ${labelFontSize}px Inter, sans-serif`;
-              ctx.textAlign = "center";
-
-              const padding = 14;
-              const lineHeight = labelFontSize * 1.4;
-
-              const lines =
-                index === 0
-                  ? [t("label.start"), `${p.value} (${p.time})`]
-                  : index === totalPoints - 1
-                    ? [t("label.finalDestination"), `${p.value} (${p.time})`]
-                    : [`${p.value} (${p.time})`];
-
-              const boxWidth =
-                Math.max(...lines.map((l) => ctx.measureText(l).width)) +
-                padding * 2;
-
-              const boxHeight = lines.length * lineHeight + padding * 2;
-
-              let top = p.y + baseOffset;
-
-              let box = {
-                left: p.x - boxWidth / 2,
-                right: p.x + boxWidth / 2,
-                top,
-                bottom: top + boxHeight,
-              };
-
-              const overlaps = (a: any, b: any) =>
-                !(
-                  a.right <= b.left ||
-                  a.left >= b.right ||
-                  a.bottom <= b.top ||
-                  a.top >= b.bottom
-                );
-
-              let moved = true;
-
-              while (moved) {
-                moved = false;
-                for (const placed of placedLabels) {
-                  if (overlaps(box, placed)) {
-                    top = placed.bottom + spacing;
-                    box.top = top;
-                    box.bottom = top + boxHeight;
-                    moved = true;
-                  }
-                }
-              }
-
-              placedLabels.push(box);
-
-              const bg =
-                index === 0
-                  ? "#d1fae5"
-                  : index === totalPoints - 1
-                    ? "#fee2e2"
-                    : "#f3f4f6";
-
-              ctx.beginPath();
-              ctx.moveTo(p.x, p.y);
-              ctx.lineTo(p.x, box.top);
-              ctx.strokeStyle = "#e5e7eb";
-              ctx.lineWidth = 2;
-              ctx.stroke();
-
-              drawLabelBox(p.x, box.top, lines, bg);
+    const renderVideo = async (
+      format: "webm" | "mp4",
+      toastId: string | number,
+    ): Promise<Blob> => {
+      const ffmpeg = ffmpegRef.current;
+      if (!ffmpeg.loaded) await ffmpeg.load();
+
+      // Offscreen canvas so the preview keeps running untouched
+      const { width, height } = ratioMap[aspectRatio];
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+
+      const drawFrame = await createFrameRenderer(
+        canvas.getContext("2d")!,
+        width,
+        height,
+      );
+
+      // Frame N is drawn at exactly N / fps, however long it takes
+      const totalFrames = Math.round((timelineDuration / 1000) * EXPORT_FPS);
+      const output = `output.${format}`;
+      const withAudio = format === "mp4" && !!audioFile;
+
+      // Only what was actually written is cleaned up, even after a failure
+      let framesWritten = 0;
+      let audioWritten = false;
+
+      try {
+        let lastPercent = -1;
+
+        for (let frame = 0; frame < totalFrames; frame++) {
+          drawFrame((frame / EXPORT_FPS) * 1000);
+          await ffmpeg.writeFile(
+            frameFileName(frame),
+            await fetchFile(await canvasToBlob(canvas)),
+          );
+          framesWritten = frame + 1;
+
+          const percent = Math.floor(((frame + 1) / totalFrames) * 100);
+          if (percent !== lastPercent) {
+            lastPercent = percent;
+            toast.loading(`${t("toast.renderingFrames")} ${percent}%`, {
+              id: toastId,
             });
-
-            /* ===============================
-     PLANE
-  =============================== */
-
-            const planeSize = 110;
-            ctx.save();
-            ctx.translate(planeX, planeY);
-            ctx.rotate(angle);
-            ctx.drawImage(
-              planeImage,
-              -planeSize / 2,
-              -planeSize / 2,
-              planeSize,
-              planeSize,
-            );
-            ctx.restore();
-
-            ctx.restore();
-
-            if (watermark?.enabled) {
-              drawWatermark();
-            }
-
-            if (progress < 1 || zoomProgress < 1) {
-              requestAnimationFrame(animate);
-            } else {
-              setTimeout(() => recorder.stop(), 600);
-            }
           }
-          function drawWatermark() {
-            if (!watermark?.enabled) return;
-
-            const margin = watermark.margin;
-
-            ctx.save();
-            ctx.globalAlpha = watermark.opacity;
-
-            // -------------------------
-            // IMAGE WATERMARK
-            // -------------------------
-            if (watermark.type === "image" && watermarkImageRef.current) {
-              const img = watermarkImageRef.current;
-
-              const maxWidth = width * watermark.sizeRatio;
-              const aspect = img.naturalWidth / img.naturalHeight;
-
-              let drawWidth = maxWidth;
-              let drawHeight = maxWidth / aspect;
-
-              const maxHeight = height * 0.2;
-
-              if (drawHeight > maxHeight) {
-                drawHeight = maxHeight;
-                drawWidth = maxHeight * aspect;
-              }
-
-              let x = margin;
-              let y = margin;
-
-              if (watermark.position.includes("right")) {
-                x = width - drawWidth - margin;
-              }
-
-              if (watermark.position.includes("center")) {
-                x = width / 2 - drawWidth / 2;
-              }
+        }
 
-              if (watermark.position.includes("bottom")) {
-                y = height - drawHeight - margin;
-              }
+        toast.loading(t("toast.preparingVideo"), { id: toastId });
 
-              ctx.drawImage(img, x, y, drawWidth, drawHeight);
-            }
+        const args = ["-framerate", String(EXPORT_FPS), "-i", "frame_%05d.jpg"];
 
-            // -------------------------
-            // TEXT WATERMARK
-            // -------------------------
-            if (watermark.type === "text" && watermark.text) {
-              const fontSize = width * watermark.sizeRatio * 0.2;
+        if (withAudio) {
+          await ffmpeg.writeFile("audio", await fetchFile(audioFile));
+          audioWritten = true;
+          toast.loading(t("toast.mergingAudio"), { id: toastId });
+          args.push("-i", "audio");
+        }
 
-              ctx.fillStyle = "#111";
-              ctx.font = `500 ${fontSize}px Inter, sans-serif`;
+        if (format === "mp4") {
+          args.push(
+            "-c:v",
+            "libx264",
+            "-preset",
+            "ultrafast",
+            "-pix_fmt",
+            "yuv420p",
+          );
+        } else {
+          args.push(
+            "-c:v",
+            "libvpx",
+            "-b:v",
+            "8M",
+            "-deadline",
+            "realtime",
+            "-cpu-used",
+            "8",
+          );
+        }
 
-              let x = margin;
-              let y = margin + fontSize;
+        if (withAudio) {
+          // Pad short audio with silence so the video length always wins
+          args.push("-c:a", "aac", "-af", "apad", "-shortest");
+        }
 
-              if (watermark.position.includes("right")) {
-                ctx.textAlign = "right";
-                x = width - margin;
-              } else if (watermark.position.includes("center")) {
-                ctx.textAlign = "center";
-                x = width / 2;
-              } else {
-                ctx.textAlign = "left";
-              }
+        args.push("-frames:v", String(totalFrames), output);
 
-              if (watermark.position.includes("bottom")) {
-                y = height - margin;
-              }
+        await ffmpeg.exec(args);
 
-              ctx.fillText(watermark.text, x, y);
-            }
+        const data = await ffmpeg.readFile(output);
+        if (typeof data === "string") throw new Error();
 
-            ctx.restore();
-          }
+        return new Blob([new Uint8Array(data)], {
+          type: `video/${format}`,
+        });
+      } finally {
+        for (let frame = 0; frame < framesWritten; frame++) {
+          await ffmpeg.deleteFile(frameFileName(frame));
+        }
+        await ffmpeg.deleteFile(output).catch(() => {});
+        if (audioWritten) await ffmpeg.deleteFile("audio");
+      }
+    };
 
-          requestAnimationFrame(animate);
-        };
-      });
+    const downloadBlob = (blob: Blob, ext: string) => {
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = generateFileName(ext);
+      a.click();
     };
 
     const generateFileName = (ext: string) => {
@@ -741,11 +1150,12 @@ const ReusableCanvas = forwardRef<ReusableCanvasHandle, ReusableCanvasProps>(
     };
 
     useImperativeHandle(ref, () => ({
-      async startRecording() {
+      async downloadWebm() {
         const toastId = toast.loading(t("toast.recording"));
 
         try {
-          await recordAnimation(true);
+          const webmBlob = await renderVideo("webm", toastId);
+          downloadBlob(webmBlob, "webm");
           toast.success(t("toast.webmDownloaded"), {
             id: toastId,
           });
@@ -760,61 +1170,8 @@ const ReusableCanvas = forwardRef<ReusableCanvasHandle, ReusableCanvasProps>(
         const toastId = toast.loading(t("toast.recording"));
 
         try {
-          const webmBlob = await recordAnimation(false);
-
-          const ffmpeg = ffmpegRef.current;
-          if (!ffmpeg.loaded) await ffmpeg.load();
-
-          toast.loading(t("toast.preparingVideo"), { id: toastId });
-
-          await ffmpeg.writeFile("input.webm", await fetchFile(webmBlob));
-
-          if (audioFile) {
-            await ffmpeg.writeFile("audio", await fetchFile(audioFile));
-
-            toast.loading(t("toast.mergingAudio"), { id: toastId });
-
-            await ffmpeg.exec([
-              "-i",
-              "input.webm",
-              "-i",
-              "audio",
-              "-c:v",
-              "libx264",
-              "-preset",
-              "ultrafast",
-              "-c:a",
-              "aac",
-              "-shortest",
-              "output.mp4",
-            ]);
-          } else {
-            await ffmpeg.exec([
-              "-i",
-              "input.webm",
-              "-c:v",
-              "libx264",
-              "-preset",
-              "ultrafast",
-              "output.mp4",
-            ]);
-          }
-
-          const data = await ffmpeg.readFile("output.mp4");
-
-          if (typeof data === "string") throw new Error();
-
-          const mp4Blob = new Blob([new Uint8Array(data)], {
-            type: "video/mp4",
-          });
-
-          const url = URL.createObjectURL(mp4Blob);
-
-          const a = document.createElement("a");
-          a.href = url;
-          a.download = generateFileName("mp4");
-          a.click();
-
+          const mp4Blob = await renderVideo("mp4", toastId);
+          downloadBlob(mp4Blob, "mp4");
           toast.success(t("toast.mp4Downloaded"), { id: toastId });
         } catch {
           toast.error(t("toast.mp4Failed"), { id: toastId });
@@ -823,14 +1180,45 @@ const ReusableCanvas = forwardRef<ReusableCanvasHandle, ReusableCanvasProps>(
     }));
 
     useEffect(() => {
-      recordAnimation(false);
-    }, [points, aspectRatio, duration, t]);
+      loadPreview().catch(() => toast.error(t("toast.previewFailed")));
+      return () => cancelAnimationFrame(previewFrameRef.current);
+    }, [
+      points,
+      aspectRatio,
+      duration,
+      xSpacing,
+      pathMode,
+      chartType,
+      locale,
+      t,
+    ]);
 
     return (
-      <canvas
-        ref={canvasRef}
-        className="w-full max-w-4xl border border-zinc-200 rounded-md"
-      />
+      <div className="w-full max-w-4xl flex flex-col gap-3">
+        <canvas
+          ref={canvasRef}
+          className="w-full border border-zinc-200 rounded-md"
+        />
+
+        <PreviewPlayer
+          isPlaying={isPlaying}
+          onTogglePlay={isPlaying ? pausePreview : resumePreview}
+          position={playhead}
+          duration={timelineDuration}
+          onSeek={seekPreview}
+          loop={loop}
+          onLoopChange={(value) => {
+            loopRef.current = value;
+            setLoop(value);
+          }}
+          speed={speed}
+          onSpeedChange={(value) => {
+            speedRef.current = value;
+            setSpeed(value);
+          }}
+          t={t}
+        />
+      </div>
     );
   },
 );
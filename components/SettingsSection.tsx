@@ -1,6 +1,9 @@
 "use client";
 
+import { useState } from "react";
 import Image from "next/image";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
@@ -13,6 +16,61 @@ import {
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Checkbox } from "@/components/ui/checkbox";
+import {
+  BackgroundConfig,
+  BackgroundKind,
+  CameraConfig,
+  CameraMode,
+  CardsConfig,
+  CardTransition,
+  Corner,
+  DashStyle,
+  EffectsConfig,
+  labelTokens,
+  OutroConfig,
+  OutroMotion,
+  PathMode,
+  ReferenceLine,
+  SpriteConfig,
+  SpriteKind,
+  TickerConfig,
+  XAxisConfig,
+  XSpacing,
+  YAxisConfig,
+} from "@/lib/scene";
+import { spriteSource } from "@/lib/sprites";
+import {
+  createReferenceLine,
+  REFERENCE_KINDS,
+  ReferenceKind,
+} from "@/lib/referenceLines";
+import {
+  formatNumber,
+  Grouping,
+  NumberFormatConfig,
+  NumberStyle,
+} from "@/lib/numberFormat";
+import {
+  DEFAULT_LABEL_TEMPLATES,
+  fillTemplate,
+  LABEL_TOKENS,
+  LabelTemplates,
+} from "@/lib/labelTemplates";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  BUNDLED_FONTS,
+  DEFAULT_FONTS,
+  FONT_FILE_TYPES,
+  fontFamilyOf,
+  FontSettings,
+  registerFont,
+} from "@/lib/fonts";
+import {
+  BUILT_IN_THEMES,
+  Theme,
+  THEME_COLOR_KEYS,
+  ThemeName,
+} from "@/lib/themes";
 
 type WatermarkConfig = {
   enabled: boolean;
@@ -46,11 +104,144 @@ type Props = {
   setSlidingEnabled: (v: boolean) => void;
   minVisiblePoints: number;
   setMinVisiblePoints: (v: number) => void;
+  xSpacing: XSpacing;
+  setXSpacing: (v: XSpacing) => void;
+  pathMode: PathMode;
+  setPathMode: (v: PathMode) => void;
+  camera: CameraConfig;
+  setCamera: (v: CameraConfig) => void;
+  numberFormat: NumberFormatConfig;
+  setNumberFormat: (v: NumberFormatConfig) => void;
+  labelTemplates: LabelTemplates;
+  setLabelTemplates: (v: LabelTemplates) => void;
+  ticker: TickerConfig;
+  setTicker: (v: TickerConfig) => void;
+  referenceLines: ReferenceLine[];
+  setReferenceLines: (v: ReferenceLine[]) => void;
+  background: BackgroundConfig;
+  setBackground: (v: BackgroundConfig) => void;
+  fonts: FontSettings;
+  setFonts: (v: FontSettings) => void;
+  effects: EffectsConfig;
+  setEffects: (v: EffectsConfig) => void;
+  outro: OutroConfig;
+  setOutro: (v: OutroConfig) => void;
+  cards: CardsConfig;
+  setCards: (v: CardsConfig) => void;
+  locale: string;
+  yAxis: YAxisConfig;
+  setYAxis: (v: YAxisConfig) => void;
+  xAxis: XAxisConfig;
+  setXAxis: (v: XAxisConfig) => void;
+  theme: Theme;
+  setTheme: (v: Theme) => void;
+  sprite: SpriteConfig;
+  setSprite: (v: SpriteConfig) => void;
   totalPoints: number;
+  startValue: number; // first point, the base of new reference lines
 
   t: any;
 };
 
+// Start, middle and final point of the live template sample
+const TEMPLATE_SAMPLE_POINTS = [
+  { value: 1200, time: "09:15", note: "Entry" },
+  { value: 1228.8, time: "10:15", note: "Breakout" },
+  { value: 1262.5, time: "11:30", note: "Target hit" },
+];
+
+type LevelInputProps = {
+  value: number;
+  onChange: (value: number) => void;
+};
+
+const parseLevel = (text: string) => (text.trim() === "" ? NaN : Number(text));
+
+/*
+  Number field for reference line levels. The typed text is kept as is,
+  so clearing the field or typing a lone "-" doesn't store 0, and only
+  complete numbers are passed on. An unfinished entry goes back to the
+  stored level when the field loses focus.
+*/
+const LevelInput = ({ value, onChange }: LevelInputProps) => {
+  const [text, setText] = useState(String(value));
+  const [shown, setShown] = useState(value);
+
+  // Follow changes made elsewhere, such as loading a preset
+  if (value !== shown) {
+    setShown(value);
+    setText(String(value));
+  }
+
+  return (
+    <Input
+      type="number"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        const next = parseLevel(e.target.value);
+        if (!Number.isFinite(next)) return;
+        setShown(next);
+        onChange(next);
+      }}
+      onBlur={() => {
+        if (!Number.isFinite(parseLevel(text))) setText(String(value));
+      }}
+    />
+  );
+};
+
+type SpritePickerProps = {
+  kind: SpriteKind;
+  imageUrl?: string;
+  onChange: (kind: SpriteKind, imageUrl: string) => void;
+  t: (key: string) => string;
+};
+
+const SpritePicker = ({ kind, imageUrl, onChange, t }: SpritePickerProps) => (
+  <div className="flex flex-col gap-3 md:w-56">
+    <Select
+      value={kind}
+      onValueChange={(value) => onChange(value as SpriteKind, imageUrl || "")}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="plane">{t("sprite.plane")}</SelectItem>
+        <SelectItem value="rocket">{t("sprite.rocket")}</SelectItem>
+        <SelectItem value="car">{t("sprite.car")}</SelectItem>
+        <SelectItem value="bull">{t("sprite.bull")}</SelectItem>
+        <SelectItem value="bear">{t("sprite.bear")}</SelectItem>
+        <SelectItem value="custom">{t("sprite.custom")}</SelectItem>
+      </SelectContent>
+    </Select>
+
+    <div className="flex items-center gap-3">
+      <Image
+        src={spriteSource(kind, imageUrl)}
+        alt={t("sprite.preview")}
+        width={40}
+        height={40}
+        unoptimized
+        className="h-10 w-10 object-contain border rounded p-1 bg-white"
+      />
+      {kind === "custom" && (
+        <Input
+          type="file"
+          accept="image/png,image/svg+xml"
+          onChange={(e) => {
+            if (!e.target.files?.[0]) return;
+            const reader = new FileReader();
+            reader.onload = () => onChange(kind, reader.result as string);
+            reader.readAsDataURL(e.target.files[0]);
+          }}
+        />
+      )}
+    </div>
+  </div>
+);
+
 export default function SettingsSection({
   durationInput,
   setDurationInput,
@@ -66,7 +257,41 @@ export default function SettingsSection({
   setSlidingEnabled,
   minVisiblePoints,
   setMinVisiblePoints,
+  xSpacing,
+  setXSpacing,
+  pathMode,
+  setPathMode,
+  camera,
+  setCamera,
+  numberFormat,
+  setNumberFormat,
+  labelTemplates,
+  setLabelTemplates,
+  ticker,
+  setTicker,
+  referenceLines,
+  setReferenceLines,
+  background,
+  setBackground,
+  fonts,
+  setFonts,
+  effects,
+  setEffects,
+  outro,
+  setOutro,
+  cards,
+  setCards,
+  locale,
+  yAxis,
+  setYAxis,
+  xAxis,
+  setXAxis,
+  theme,
+  setTheme,
+  sprite,
+  setSprite,
   totalPoints,
+  startValue,
   t,
 }: Props) {
   return (
@@ -104,6 +329,48 @@ export default function SettingsSection({
           </Select>
         </div>
 
+        {/* X Spacing */}
+        <div className="flex flex-col gap-2 md:w-48">
+          <Label className="text-base font-semibold text-zinc-800">
+            {t("settings.xSpacing")}
+          </Label>
+          <Select
+            value={xSpacing}
+            onValueChange={(value) => setXSpacing(value as XSpacing)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="index">
+                {t("settings.xSpacingIndex")}
+              </SelectItem>
+              <SelectItem value="time">{t("settings.xSpacingTime")}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Path Mode */}
+        <div className="flex flex-col gap-2 md:w-48">
+          <Label className="text-base font-semibold text-zinc-800">
+            {t("settings.pathMode")}
+          </Label>
+          <Select
+            value={pathMode}
+            onValueChange={(value) => setPathMode(value as PathMode)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="straight">
+                {t("settings.pathStraight")}
+              </SelectItem>
+              <SelectItem value="smooth">{t("settings.pathSmooth")}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Font Size */}
         <div className="flex flex-col gap-3 md:w-64">
           <Label className="text-base font-semibold text-zinc-800">
@@ -443,6 +710,1661 @@ export default function SettingsSection({
           )}
         </div>
       </div>
+
+      {/* ================= CAMERA CONTROLS ================= */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("camera.title")}
+        </Label>
+
+        <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+          {/* Mode */}
+          <div className="flex flex-col gap-2 md:w-56">
+            <Label className="text-sm text-zinc-700">{t("camera.mode")}</Label>
+            <Select
+              value={camera.mode}
+              onValueChange={(value) =>
+                setCamera({ ...camera, mode: value as CameraMode })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="slide">{t("camera.slide")}</SelectItem>
+                <SelectItem value="follow">{t("camera.follow")}</SelectItem>
+                <SelectItem value="chase">{t("camera.chase")}</SelectItem>
+                <SelectItem value="overview">{t("camera.overview")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Zoom */}
+          {(camera.mode === "follow" || camera.mode === "chase") && (
+            <div className="flex flex-col gap-3 md:w-64">
+              <Label className="text-sm text-zinc-700">
+                {t("camera.zoom")}
+              </Label>
+              <div className="flex items-center gap-3">
+                <div className="flex-1">
+                  <Slider
+                    min={1}
+                    max={5}
+                    step={0.1}
+                    value={[camera.zoom]}
+                    onValueChange={(value) =>
+                      setCamera({ ...camera, zoom: value[0] })
+                    }
+                  />
+                </div>
+                <Input
+                  type="number"
+                  step="0.1"
+                  min={1}
+                  max={5}
+                  value={camera.zoom}
+                  onChange={(e) =>
+                    setCamera({
+                      ...camera,
+                      zoom: Math.min(5, Math.max(1, Number(e.target.value))),
+                    })
+                  }
+                  className="w-20"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Hold */}
+          <div className="flex flex-col gap-2 md:w-40">
+            <Label className="text-sm text-zinc-700">
+              {t("camera.holdMs")}
+            </Label>
+            <Input
+              type="number"
+              min={0}
+              max={10000}
+              step={100}
+              value={camera.holdMs}
+              onChange={(e) =>
+                setCamera({
+                  ...camera,
+                  holdMs: Math.min(10000, Math.max(0, Number(e.target.value))),
+                })
+              }
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <Checkbox
+            id="cameraZoomOut"
+            checked={camera.zoomOut}
+            onCheckedChange={(checked) =>
+              setCamera({ ...camera, zoomOut: !!checked })
+            }
+          />
+          <Label htmlFor="cameraZoomOut" className="text-sm cursor-pointer">
+            {t("camera.zoomOut")}
+          </Label>
+        </div>
+
+        {camera.zoomOut && (
+          <div className="flex flex-col gap-2 md:w-40">
+            <Label className="text-sm text-zinc-700">
+              {t("camera.zoomOutMs")}
+            </Label>
+            <Input
+              type="number"
+              min={100}
+              max={10000}
+              step={100}
+              value={camera.zoomOutMs}
+              onChange={(e) =>
+                setCamera({
+                  ...camera,
+                  zoomOutMs: Math.min(
+                    10000,
+                    Math.max(100, Number(e.target.value)),
+                  ),
+                })
+              }
+            />
+          </div>
+        )}
+      </div>
+
+      {/* ================= LABEL TEMPLATE CONTROLS ================= */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("labelTemplate.title")}
+        </Label>
+
+        <p className="text-xs text-muted-foreground">
+          {t("labelTemplate.tokens")}{" "}
+          {LABEL_TOKENS.map((token) => `{${token}}`).join(" ")}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {t("labelTemplate.fromStartHelp")}
+        </p>
+
+        <div className="grid gap-6 md:grid-cols-3">
+          {(["start", "middle", "final"] as const).map((kind, index) => (
+            <div key={kind} className="flex flex-col gap-2">
+              <Label className="text-sm text-zinc-700">
+                {t(`labelTemplate.${kind}`)}
+              </Label>
+              <Textarea
+                rows={3}
+                value={labelTemplates[kind]}
+                onChange={(e) =>
+                  setLabelTemplates({
+                    ...labelTemplates,
+                    [kind]: e.target.value,
+                  })
+                }
+                className="font-mono text-xs"
+              />
+
+              {/* Live sample */}
+              <div className="rounded border bg-zinc-50 px-3 py-2 text-center text-sm font-semibold text-zinc-800">
+                {fillTemplate(
+                  labelTemplates[kind],
+                  labelTokens(
+                    TEMPLATE_SAMPLE_POINTS,
+                    index,
+                    kind === "start"
+                      ? t("label.start")
+                      : kind === "final"
+                        ? t("label.finalDestination")
+                        : "",
+                    (value) => formatNumber(value, numberFormat, locale),
+                  ),
+                ).map((line, i) => (
+                  <div key={i}>{line}</div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setLabelTemplates(DEFAULT_LABEL_TEMPLATES)}
+        >
+          {t("labelTemplate.reset")}
+        </Button>
+      </div>
+
+      {/* ================= VALUE TICKER CONTROLS ================= */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("ticker.title")}
+        </Label>
+
+        <div className="flex items-center space-x-3">
+          <Checkbox
+            id="tickerEnabled"
+            checked={ticker.enabled}
+            onCheckedChange={(checked) =>
+              setTicker({ ...ticker, enabled: !!checked })
+            }
+          />
+          <Label htmlFor="tickerEnabled" className="text-sm cursor-pointer">
+            {t("ticker.enabled")}
+          </Label>
+        </div>
+
+        {ticker.enabled && (
+          <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+            {/* Corner */}
+            <div className="flex flex-col gap-2 md:w-56">
+              <Label className="text-sm text-zinc-700">
+                {t("ticker.position")}
+              </Label>
+              <Select
+                value={ticker.position}
+                onValueChange={(value) =>
+                  setTicker({ ...ticker, position: value as Corner })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="top-left">{t("form.topLeft")}</SelectItem>
+                  <SelectItem value="top-right">
+                    {t("form.topRight")}
+                  </SelectItem>
+                  <SelectItem value="bottom-left">
+                    {t("form.bottomLeft")}
+                  </SelectItem>
+                  <SelectItem value="bottom-right">
+                    {t("form.bottomRight")}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Font size */}
+            <div className="flex flex-col gap-3 md:w-64">
+              <Label className="text-sm text-zinc-700">
+                {t("ticker.fontSize")}
+              </Label>
+              <div className="flex items-center gap-3">
+                <div className="flex-1">
+                  <Slider
+                    min={24}
+                    max={96}
+                    step={1}
+                    value={[ticker.fontSize]}
+                    onValueChange={(value) =>
+                      setTicker({ ...ticker, fontSize: value[0] })
+                    }
+                  />
+                </div>
+                <Input
+                  type="number"
+                  min={24}
+                  max={96}
+                  value={ticker.fontSize}
+                  onChange={(e) =>
+                    setTicker({
+                      ...ticker,
+                      fontSize: Math.min(
+                        96,
+                        Math.max(24, Number(e.target.value)),
+                      ),
+                    })
+                  }
+                  className="w-20"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* ================= REFERENCE LINES CONTROLS ================= */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("reference.title")}
+        </Label>
+
+        {referenceLines.map((line, index) => {
+          const updateLine = (changes: Partial<ReferenceLine>) =>
+            setReferenceLines(
+              referenceLines.map((l, i) =>
+                i === index ? { ...l, ...changes } : l,
+              ),
+            );
+
+          return (
+            <div
+              key={line.id}
+              className="flex flex-col gap-4 md:flex-row md:flex-wrap md:items-end border-b border-zinc-200 pb-4"
+            >
+              <div className="flex flex-col gap-2 md:w-40">
+                <Label className="text-sm text-zinc-700">
+                  {t("reference.label")}
+                </Label>
+                <Input
+                  maxLength={30}
+                  value={line.label}
+                  onChange={(e) => updateLine({ label: e.target.value })}
+                />
+              </div>
+
+              <div className="flex flex-col gap-2 md:w-32">
+                <Label className="text-sm text-zinc-700">
+                  {t("reference.value")}
+                </Label>
+                <LevelInput
+                  value={line.value}
+                  onChange={(value) => updateLine({ value })}
+                />
+              </div>
+
+              <div className="flex flex-col gap-2">
+                <Label className="text-sm text-zinc-700">
+                  {t("reference.color")}
+                </Label>
+                <Input
+                  type="color"
+                  value={line.color}
+                  onChange={(e) => updateLine({ color: e.target.value })}
+                  className="w-20 p-1"
+                />
+              </div>
+
+              <div className="flex flex-col gap-2 md:w-32">
+                <Label className="text-sm text-zinc-700">
+                  {t("reference.dash")}
+                </Label>
+                <Select
+                  value={line.dash}
+                  onValueChange={(value) =>
+                    updateLine({ dash: value as DashStyle })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="solid">
+                      {t("reference.solid")}
+                    </SelectItem>
+                    <SelectItem value="dashed">
+                      {t("reference.dashed")}
+                    </SelectItem>
+                    <SelectItem value="dotted">
+                      {t("reference.dotted")}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center space-x-3 md:pb-2">
+                <Checkbox
+                  id={`referenceBand-${index}`}
+                  checked={line.band}
+                  onCheckedChange={(checked) => updateLine({ band: !!checked })}
+                />
+                <Label
+                  htmlFor={`referenceBand-${index}`}
+                  className="text-sm cursor-pointer"
+                >
+                  {t("reference.band")}
+                </Label>
+              </div>
+
+              {line.band && (
+                <div className="flex flex-col gap-2 md:w-32">
+                  <Label className="text-sm text-zinc-700">
+                    {t("reference.bandTo")}
+                  </Label>
+                  <LevelInput
+                    value={line.bandTo}
+                    onChange={(bandTo) => updateLine({ bandTo })}
+                  />
+                </div>
+              )}
+
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() =>
+                  setReferenceLines(
+                    referenceLines.filter((_, i) => i !== index),
+                  )
+                }
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        })}
+
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(REFERENCE_KINDS) as ReferenceKind[]).map((kind) => (
+            <Button
+              key={kind}
+              variant="secondary"
+              size="sm"
+              onClick={() =>
+                setReferenceLines([
+                  ...referenceLines,
+                  createReferenceLine(
+                    kind,
+                    kind === "custom" ? "" : t(`reference.${kind}`),
+                    startValue,
+                  ),
+                ])
+              }
+            >
+              + {t(`reference.${kind}`)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* ================= NUMBER FORMAT CONTROLS ================= */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("numberFormat.title")}
+        </Label>
+
+        <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+          {/* Style */}
+          <div className="flex flex-col gap-2 md:w-40">
+            <Label className="text-sm text-zinc-700">
+              {t("numberFormat.style")}
+            </Label>
+            <Select
+              value={numberFormat.style}
+              onValueChange={(value) =>
+                setNumberFormat({
+                  ...numberFormat,
+                  style: value as NumberStyle,
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="plain">{t("numberFormat.plain")}</SelectItem>
+                <SelectItem value="currency">
+                  {t("numberFormat.currency")}
+                </SelectItem>
+                <SelectItem value="percent">
+                  {t("numberFormat.percent")}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Currency */}
+          {numberFormat.style === "currency" && (
+            <>
+              <div className="flex flex-col gap-2 md:w-28">
+                <Label className="text-sm text-zinc-700">
+                  {t("numberFormat.currencyCode")}
+                </Label>
+                <Input
+                  maxLength={3}
+                  value={numberFormat.currency}
+                  onChange={(e) =>
+                    setNumberFormat({
+                      ...numberFormat,
+                      currency: e.target.value.toUpperCase(),
+                    })
+                  }
+                />
+              </div>
+
+              <div className="flex flex-col gap-2 md:w-36">
+                <Label className="text-sm text-zinc-700">
+                  {t("numberFormat.currencyDisplay")}
+                </Label>
+                <Select
+                  value={numberFormat.currencyDisplay}
+                  onValueChange={(value) =>
+                    setNumberFormat({
+                      ...numberFormat,
+                      currencyDisplay: value as "symbol" | "code",
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="symbol">
+                      {t("numberFormat.symbol")}
+                    </SelectItem>
+                    <SelectItem value="code">
+                      {t("numberFormat.code")}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          {/* Decimals */}
+          <div className="flex flex-col gap-2 md:w-28">
+            <Label className="text-sm text-zinc-700">
+              {t("numberFormat.decimals")}
+            </Label>
+            <Select
+              value={String(numberFormat.decimals)}
+              onValueChange={(value) =>
+                setNumberFormat({
+                  ...numberFormat,
+                  decimals: value === "auto" ? "auto" : Number(value),
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">{t("numberFormat.auto")}</SelectItem>
+                {[0, 1, 2, 3, 4].map((d) => (
+                  <SelectItem key={d} value={String(d)}>
+                    {d}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Grouping */}
+          <div className="flex flex-col gap-2 md:w-48">
+            <Label className="text-sm text-zinc-700">
+              {t("numberFormat.grouping")}
+            </Label>
+            <Select
+              value={numberFormat.grouping}
+              onValueChange={(value) =>
+                setNumberFormat({
+                  ...numberFormat,
+                  grouping: value as Grouping,
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">{t("numberFormat.none")}</SelectItem>
+                <SelectItem value="international">
+                  {t("numberFormat.international")}
+                </SelectItem>
+                <SelectItem value="indian">
+                  {t("numberFormat.indian")}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Prefix / Suffix */}
+          <div className="flex flex-col gap-2 md:w-28">
+            <Label className="text-sm text-zinc-700">
+              {t("numberFormat.prefix")}
+            </Label>
+            <Input
+              maxLength={10}
+              value={numberFormat.prefix}
+              onChange={(e) =>
+                setNumberFormat({ ...numberFormat, prefix: e.target.value })
+              }
+            />
+          </div>
+
+          <div className="flex flex-col gap-2 md:w-28">
+            <Label className="text-sm text-zinc-700">
+              {t("numberFormat.suffix")}
+            </Label>
+            <Input
+              maxLength={10}
+              value={numberFormat.suffix}
+              onChange={(e) =>
+                setNumberFormat({ ...numberFormat, suffix: e.target.value })
+              }
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* ================= Y AXIS CONTROLS ================= */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("yAxis.title")}
+        </Label>
+
+        <div className="flex items-center space-x-3">
+          <Checkbox
+            id="yAxisEnabled"
+            checked={yAxis.enabled}
+            onCheckedChange={(checked) =>
+              setYAxis({ ...yAxis, enabled: !!checked })
+            }
+          />
+          <Label htmlFor="yAxisEnabled" className="text-sm cursor-pointer">
+            {t("yAxis.enable")}
+          </Label>
+        </div>
+
+        {yAxis.enabled && (
+          <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+            {/* Gridlines */}
+            <div className="flex items-center space-x-3 md:h-9">
+              <Checkbox
+                id="yAxisGridlines"
+                checked={yAxis.gridlines}
+                onCheckedChange={(checked) =>
+                  setYAxis({ ...yAxis, gridlines: !!checked })
+                }
+              />
+              <Label
+                htmlFor="yAxisGridlines"
+                className="text-sm cursor-pointer"
+              >
+                {t("yAxis.gridlines")}
+              </Label>
+            </div>
+
+            {/* Tick Count */}
+            <div className="flex flex-col gap-2 md:w-32">
+              <Label className="text-base font-semibold text-zinc-800">
+                {t("yAxis.tickCount")}
+              </Label>
+              <Input
+                type="number"
+                min={2}
+                max={12}
+                value={yAxis.tickCount}
+                onChange={(e) =>
+                  setYAxis({
+                    ...yAxis,
+                    tickCount: Math.min(
+                      12,
+                      Math.max(2, Number(e.target.value)),
+                    ),
+                  })
+                }
+              />
+            </div>
+
+            {/* Font Size */}
+            <div className="flex flex-col gap-3 md:w-64">
+              <Label className="text-base font-semibold text-zinc-800">
+                {t("yAxis.fontSize")}
+              </Label>
+              <div className="flex items-center gap-3">
+                <div className="flex-1">
+                  <Slider
+                    min={8}
+                    max={48}
+                    step={1}
+                    value={[yAxis.fontSize]}
+                    onValueChange={(value) =>
+                      setYAxis({ ...yAxis, fontSize: value[0] })
+                    }
+                  />
+                </div>
+                <Input
+                  type="number"
+                  min={8}
+                  max={48}
+                  value={yAxis.fontSize}
+                  onChange={(e) =>
+                    setYAxis({
+                      ...yAxis,
+                      fontSize: Math.min(
+                        48,
+                        Math.max(8, Number(e.target.value)),
+                      ),
+                    })
+                  }
+                  className="w-20"
+                />
+              </div>
+            </div>
+
+            {/* Colors */}
+            <div className="flex flex-col gap-2">
+              <Label className="text-base font-semibold text-zinc-800">
+                {t("yAxis.gridColor")}
+              </Label>
+              <Input
+                type="color"
+                value={yAxis.gridColor}
+                onChange={(e) =>
+                  setYAxis({ ...yAxis, gridColor: e.target.value })
+                }
+                className="w-20 p-1"
+              />
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <Label className="text-base font-semibold text-zinc-800">
+                {t("yAxis.labelColor")}
+              </Label>
+              <Input
+                type="color"
+                value={yAxis.labelColor}
+                onChange={(e) =>
+                  setYAxis({ ...yAxis, labelColor: e.target.value })
+                }
+                className="w-20 p-1"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* ================= TIME AXIS CONTROLS ================= */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("xAxis.title")}
+        </Label>
+
+        <div className="flex items-center space-x-3">
+          <Checkbox
+            id="xAxisEnabled"
+            checked={xAxis.enabled}
+            onCheckedChange={(checked) =>
+              setXAxis({ ...xAxis, enabled: !!checked })
+            }
+          />
+          <Label htmlFor="xAxisEnabled" className="text-sm cursor-pointer">
+            {t("xAxis.enable")}
+          </Label>
+        </div>
+
+        {xAxis.enabled && (
+          <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+            {/* Font Size */}
+            <div className="flex flex-col gap-3 md:w-64">
+              <Label className="text-base font-semibold text-zinc-800">
+                {t("xAxis.fontSize")}
+              </Label>
+              <div className="flex items-center gap-3">
+                <div className="flex-1">
+                  <Slider
+                    min={8}
+                    max={48}
+                    step={1}
+                    value={[xAxis.fontSize]}
+                    onValueChange={(value) =>
+                      setXAxis({ ...xAxis, fontSize: value[0] })
+                    }
+                  />
+                </div>
+                <Input
+                  type="number"
+                  min={8}
+                  max={48}
+                  value={xAxis.fontSize}
+                  onChange={(e) =>
+                    setXAxis({
+                      ...xAxis,
+                      fontSize: Math.min(
+                        48,
+                        Math.max(8, Number(e.target.value)),
+                      ),
+                    })
+                  }
+                  className="w-20"
+                />
+              </div>
+            </div>
+
+            {/* Colors */}
+            <div className="flex flex-col gap-2">
+              <Label className="text-base font-semibold text-zinc-800">
+                {t("xAxis.lineColor")}
+              </Label>
+              <Input
+                type="color"
+                value={xAxis.lineColor}
+                onChange={(e) =>
+                  setXAxis({ ...xAxis, lineColor: e.target.value })
+                }
+                className="w-20 p-1"
+              />
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <Label className="text-base font-semibold text-zinc-800">
+                {t("xAxis.labelColor")}
+              </Label>
+              <Input
+                type="color"
+                value={xAxis.labelColor}
+                onChange={(e) =>
+                  setXAxis({ ...xAxis, labelColor: e.target.value })
+                }
+                className="w-20 p-1"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* ================= THEME CONTROLS ================= */}
+      <div className="space-y-4">
+        <div className="flex flex-col gap-2 md:w-64">
+          <Label className="text-base font-semibold text-zinc-800">
+            {t("theme.title")}
+          </Label>
+          <Select
+            value={theme.name}
+            onValueChange={(value: ThemeName) =>
+              setTheme(
+                value === "custom"
+                  ? { ...theme, name: "custom" }
+                  : BUILT_IN_THEMES[value],
+              )
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="light">{t("theme.light")}</SelectItem>
+              <SelectItem value="dark">{t("theme.dark")}</SelectItem>
+              <SelectItem value="neon">{t("theme.neon")}</SelectItem>
+              <SelectItem value="monochrome">
+                {t("theme.monochrome")}
+              </SelectItem>
+              <SelectItem value="custom">{t("theme.custom")}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {theme.name === "custom" && (
+          <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 md:grid-cols-4">
+            {THEME_COLOR_KEYS.map((key) => (
+              <div key={key} className="flex flex-col gap-2">
+                <Label className="text-sm text-zinc-700">
+                  {t(`theme.${key}`)}
+                </Label>
+                <Input
+                  type="color"
+                  value={theme[key]}
+                  onChange={(e) =>
+                    setTheme({ ...theme, [key]: e.target.value })
+                  }
+                  className="w-20 p-1"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* ================= BACKGROUND CONTROLS ================= */}
+      <div className="space-y-4">
+        <div className="flex flex-col gap-2 md:w-64">
+          <Label className="text-base font-semibold text-zinc-800">
+            {t("background.title")}
+          </Label>
+          <Select
+            value={background.kind}
+            onValueChange={(value: BackgroundKind) =>
+              setBackground({ ...background, kind: value })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="solid">{t("background.solid")}</SelectItem>
+              <SelectItem value="linear">{t("background.linear")}</SelectItem>
+              <SelectItem value="radial">{t("background.radial")}</SelectItem>
+              <SelectItem value="image">{t("background.image")}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {(background.kind === "linear" || background.kind === "radial") && (
+          <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+            <div className="flex flex-col gap-2">
+              <Label className="text-sm text-zinc-700">
+                {t("background.from")}
+              </Label>
+              <Input
+                type="color"
+                value={background.from}
+                onChange={(e) =>
+                  setBackground({ ...background, from: e.target.value })
+                }
+                className="w-20 p-1"
+              />
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <Label className="text-sm text-zinc-700">
+                {t("background.to")}
+              </Label>
+              <Input
+                type="color"
+                value={background.to}
+                onChange={(e) =>
+                  setBackground({ ...background, to: e.target.value })
+                }
+                className="w-20 p-1"
+              />
+            </div>
+
+            {background.kind === "linear" && (
+              <div className="flex flex-col gap-3 md:w-64">
+                <Label className="text-sm text-zinc-700">
+                  {t("background.angle")}
+                </Label>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <Slider
+                      min={0}
+                      max={360}
+                      step={5}
+                      value={[background.angle]}
+                      onValueChange={(value) =>
+                        setBackground({ ...background, angle: value[0] })
+                      }
+                    />
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={360}
+                    value={background.angle}
+                    onChange={(e) =>
+                      setBackground({
+                        ...background,
+                        angle: Math.min(
+                          360,
+                          Math.max(0, Number(e.target.value)),
+                        ),
+                      })
+                    }
+                    className="w-20"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {background.kind === "image" && (
+          <div className="space-y-4">
+            {background.imageUrl && (
+              <div className="flex items-center gap-3">
+                <Image
+                  src={background.imageUrl}
+                  alt="background"
+                  width={100}
+                  height={56}
+                  className="h-14 w-auto object-cover border rounded"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setBackground({ ...background, imageUrl: "" })}
+                >
+                  {t("form.remove")}
+                </Button>
+              </div>
+            )}
+
+            <Input
+              type="file"
+              accept="image/*"
+              onChange={(e) => {
+                if (!e.target.files?.[0]) return;
+                const reader = new FileReader();
+                reader.onload = () =>
+                  setBackground({
+                    ...background,
+                    imageUrl: reader.result as string,
+                  });
+                reader.readAsDataURL(e.target.files[0]);
+              }}
+            />
+
+            <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+              <div className="flex flex-col gap-2 md:w-40">
+                <Label className="text-sm text-zinc-700">
+                  {t("background.fit")}
+                </Label>
+                <Select
+                  value={background.fit}
+                  onValueChange={(value: BackgroundConfig["fit"]) =>
+                    setBackground({ ...background, fit: value })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cover">
+                      {t("background.cover")}
+                    </SelectItem>
+                    <SelectItem value="contain">
+                      {t("background.contain")}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex flex-col gap-3 md:w-56">
+                <Label className="text-sm text-zinc-700">
+                  {t("background.blur")}
+                </Label>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <Slider
+                      min={0}
+                      max={20}
+                      step={1}
+                      value={[background.blur]}
+                      onValueChange={(value) =>
+                        setBackground({ ...background, blur: value[0] })
+                      }
+                    />
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={20}
+                    value={background.blur}
+                    onChange={(e) =>
+                      setBackground({
+                        ...background,
+                        blur: Math.min(20, Math.max(0, Number(e.target.value))),
+                      })
+                    }
+                    className="w-20"
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-col gap-3 md:w-56">
+                <Label className="text-sm text-zinc-700">
+                  {t("background.dim")}
+                </Label>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <Slider
+                      min={0}
+                      max={0.8}
+                      step={0.05}
+                      value={[background.dim]}
+                      onValueChange={(value) =>
+                        setBackground({ ...background, dim: value[0] })
+                      }
+                    />
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={0.8}
+                    step={0.05}
+                    value={background.dim}
+                    onChange={(e) =>
+                      setBackground({
+                        ...background,
+                        dim: Math.min(0.8, Math.max(0, Number(e.target.value))),
+                      })
+                    }
+                    className="w-20"
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col gap-6 md:flex-row md:items-end">
+          <div className="flex items-center space-x-3">
+            <Checkbox
+              id="backgroundSky"
+              checked={background.sky}
+              onCheckedChange={(checked) =>
+                setBackground({ ...background, sky: !!checked })
+              }
+            />
+            <Label htmlFor="backgroundSky" className="text-sm cursor-pointer">
+              {t("background.sky")}
+            </Label>
+          </div>
+
+          {background.sky && (
+            <div className="flex flex-col gap-2">
+              <Label className="text-sm text-zinc-700">
+                {t("background.cloudColor")}
+              </Label>
+              <Input
+                type="color"
+                value={background.cloudColor}
+                onChange={(e) =>
+                  setBackground({ ...background, cloudColor: e.target.value })
+                }
+                className="w-20 p-1"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* ================= FONT CONTROLS ================= */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("fonts.section")}
+        </Label>
+
+        <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+          {(["title", "labels", "watermark"] as const).map((role) => (
+            <div key={role} className="flex flex-col gap-2 md:w-56">
+              <Label className="text-sm text-zinc-700">
+                {t(`fonts.${role}`)}
+              </Label>
+              <Select
+                value={fonts[role]}
+                onValueChange={(value) => setFonts({ ...fonts, [role]: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BUNDLED_FONTS).map(([key, font]) => (
+                    <SelectItem key={key} value={key}>
+                      {font.name}
+                    </SelectItem>
+                  ))}
+                  {fonts.uploads.map((font) => (
+                    <SelectItem key={font.family} value={font.family}>
+                      {font.family}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm text-zinc-700">{t("fonts.upload")}</Label>
+          <Input
+            type="file"
+            accept={FONT_FILE_TYPES}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (!file) return;
+              const reader = new FileReader();
+              reader.onload = () => {
+                const font = {
+                  family: fontFamilyOf(file.name),
+                  url: reader.result as string,
+                };
+                registerFont(font)
+                  .then(() =>
+                    setFonts({
+                      ...fonts,
+                      uploads: [
+                        ...fonts.uploads.filter(
+                          (f) => f.family !== font.family,
+                        ),
+                        font,
+                      ],
+                    }),
+                  )
+                  .catch(() => toast.error(t("fonts.invalid")));
+              };
+              reader.readAsDataURL(file);
+            }}
+          />
+        </div>
+
+        {fonts.uploads.map((font) => (
+          <div
+            key={font.family}
+            className="flex items-center justify-between rounded-md border border-zinc-200 bg-white px-3 py-2"
+          >
+            <span className="text-sm text-zinc-700">{font.family}</span>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => {
+                // Roles using the removed font go back to the default
+                const reset = (choice: string) =>
+                  choice === font.family ? DEFAULT_FONTS.title : choice;
+                setFonts({
+                  title: reset(fonts.title),
+                  labels: reset(fonts.labels),
+                  watermark: reset(fonts.watermark),
+                  uploads: fonts.uploads.filter(
+                    (f) => f.family !== font.family,
+                  ),
+                });
+              }}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {/* ================= EFFECTS CONTROLS ================= */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("effects.title")}
+        </Label>
+
+        <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+          {(["contrail", "glow", "sparkles", "pulse"] as const).map((key) => (
+            <div key={key} className="flex flex-col gap-3 md:w-64">
+              <Label className="text-sm text-zinc-700">
+                {t(`effects.${key}`)}
+              </Label>
+              <div className="flex items-center gap-3">
+                <div className="flex-1">
+                  <Slider
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={[Math.round(effects[key] * 100)]}
+                    onValueChange={(value) =>
+                      setEffects({ ...effects, [key]: value[0] / 100 })
+                    }
+                  />
+                </div>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={Math.round(effects[key] * 100)}
+                  onChange={(e) =>
+                    setEffects({
+                      ...effects,
+                      [key]:
+                        Math.min(100, Math.max(0, Number(e.target.value))) /
+                        100,
+                    })
+                  }
+                  className="w-20"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-zinc-500">{t("effects.hint")}</p>
+      </div>
+
+      {/* ================= OUTRO CONTROLS ================= */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("outro.title")}
+        </Label>
+
+        <div className="flex items-center space-x-3">
+          <Checkbox
+            id="outroEnabled"
+            checked={outro.enabled}
+            onCheckedChange={(checked) =>
+              setOutro({ ...outro, enabled: !!checked })
+            }
+          />
+          <Label htmlFor="outroEnabled" className="text-sm cursor-pointer">
+            {t("outro.enabled")}
+          </Label>
+        </div>
+
+        {outro.enabled && (
+          <>
+            <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+              {/* Plane motion */}
+              <div className="flex flex-col gap-2 md:w-56">
+                <Label className="text-sm text-zinc-700">
+                  {t("outro.motion")}
+                </Label>
+                <Select
+                  value={outro.motion}
+                  onValueChange={(value) =>
+                    setOutro({ ...outro, motion: value as OutroMotion })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="land">{t("outro.land")}</SelectItem>
+                    <SelectItem value="hover">{t("outro.hover")}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Length */}
+              <div className="flex flex-col gap-3 md:w-64">
+                <Label className="text-sm text-zinc-700">
+                  {t("outro.durationMs")}
+                </Label>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <Slider
+                      min={1000}
+                      max={8000}
+                      step={250}
+                      value={[outro.durationMs]}
+                      onValueChange={(value) =>
+                        setOutro({ ...outro, durationMs: value[0] })
+                      }
+                    />
+                  </div>
+                  <Input
+                    type="number"
+                    min={1000}
+                    max={8000}
+                    value={outro.durationMs}
+                    onChange={(e) =>
+                      setOutro({
+                        ...outro,
+                        durationMs: Math.min(
+                          8000,
+                          Math.max(1000, Number(e.target.value)),
+                        ),
+                      })
+                    }
+                    className="w-24"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-3 md:flex-row md:gap-8">
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="outroSummary"
+                  checked={outro.summary}
+                  onCheckedChange={(checked) =>
+                    setOutro({ ...outro, summary: !!checked })
+                  }
+                />
+                <Label
+                  htmlFor="outroSummary"
+                  className="text-sm cursor-pointer"
+                >
+                  {t("outro.summary")}
+                </Label>
+              </div>
+
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="outroCelebration"
+                  checked={outro.celebration}
+                  onCheckedChange={(checked) =>
+                    setOutro({ ...outro, celebration: !!checked })
+                  }
+                />
+                <Label
+                  htmlFor="outroCelebration"
+                  className="text-sm cursor-pointer"
+                >
+                  {t("outro.celebration")}
+                </Label>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* ================= TITLE CARD CONTROLS ================= */}
+      {(["intro", "outro"] as const).map((kind) => {
+        const card = cards[kind];
+        const setCard = (value: typeof card) =>
+          setCards({ ...cards, [kind]: value });
+
+        return (
+          <div key={kind} className="space-y-4">
+            <Label className="text-base font-semibold text-zinc-800">
+              {t(`cards.${kind}`)}
+            </Label>
+
+            <div className="flex items-center space-x-3">
+              <Checkbox
+                id={`${kind}CardEnabled`}
+                checked={card.enabled}
+                onCheckedChange={(checked) =>
+                  setCard({ ...card, enabled: !!checked })
+                }
+              />
+              <Label
+                htmlFor={`${kind}CardEnabled`}
+                className="text-sm cursor-pointer"
+              >
+                {t("cards.enabled")}
+              </Label>
+            </div>
+
+            {card.enabled && (
+              <>
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="flex flex-col gap-2">
+                    <Label className="text-sm text-zinc-700">
+                      {t("cards.title")}
+                    </Label>
+                    <Input
+                      value={card.title}
+                      onChange={(e) =>
+                        setCard({ ...card, title: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <Label className="text-sm text-zinc-700">
+                      {t("cards.subtitle")}
+                    </Label>
+                    <Input
+                      value={card.subtitle}
+                      onChange={(e) =>
+                        setCard({ ...card, subtitle: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="flex flex-col gap-2">
+                    <Label className="text-sm text-zinc-700">
+                      {t("cards.cta")}
+                    </Label>
+                    <Input
+                      placeholder={t("cards.ctaPlaceholder")}
+                      value={card.cta}
+                      onChange={(e) =>
+                        setCard({ ...card, cta: e.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+
+                <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+                  {/* Background */}
+                  <div className="flex flex-col gap-2">
+                    <Label className="text-sm text-zinc-700">
+                      {t("cards.background")}
+                    </Label>
+                    <Input
+                      type="color"
+                      value={card.background}
+                      onChange={(e) =>
+                        setCard({ ...card, background: e.target.value })
+                      }
+                      className="w-20 p-1"
+                    />
+                  </div>
+
+                  {/* Transition */}
+                  <div className="flex flex-col gap-2 md:w-40">
+                    <Label className="text-sm text-zinc-700">
+                      {t("cards.transition")}
+                    </Label>
+                    <Select
+                      value={card.transition}
+                      onValueChange={(value) =>
+                        setCard({
+                          ...card,
+                          transition: value as CardTransition,
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="fade">{t("cards.fade")}</SelectItem>
+                        <SelectItem value="slide">
+                          {t("cards.slide")}
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Length */}
+                  <div className="flex flex-col gap-3 md:w-64">
+                    <Label className="text-sm text-zinc-700">
+                      {t("cards.durationMs")}
+                    </Label>
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1">
+                        <Slider
+                          min={1000}
+                          max={8000}
+                          step={250}
+                          value={[card.durationMs]}
+                          onValueChange={(value) =>
+                            setCard({ ...card, durationMs: value[0] })
+                          }
+                        />
+                      </div>
+                      <Input
+                        type="number"
+                        min={1000}
+                        max={8000}
+                        value={card.durationMs}
+                        onChange={(e) =>
+                          setCard({
+                            ...card,
+                            durationMs: Math.min(
+                              8000,
+                              Math.max(1000, Number(e.target.value)),
+                            ),
+                          })
+                        }
+                        className="w-24"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-3">
+                  <Checkbox
+                    id={`${kind}CardLogo`}
+                    checked={card.showLogo}
+                    onCheckedChange={(checked) =>
+                      setCard({ ...card, showLogo: !!checked })
+                    }
+                  />
+                  <Label
+                    htmlFor={`${kind}CardLogo`}
+                    className="text-sm cursor-pointer"
+                  >
+                    {t("cards.showLogo")}
+                  </Label>
+                </div>
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      {/* ================= PLANE SPRITE CONTROLS ================= */}
+      <div className="space-y-4">
+        <Label className="text-base font-semibold text-zinc-800">
+          {t("sprite.title")}
+        </Label>
+
+        <div className="flex flex-col gap-6 md:flex-row md:flex-wrap md:justify-between md:items-end">
+          {/* Sprite */}
+          <SpritePicker
+            kind={sprite.kind}
+            imageUrl={sprite.imageUrl}
+            onChange={(kind, imageUrl) =>
+              setSprite({ ...sprite, kind, imageUrl })
+            }
+            t={t}
+          />
+
+          {/* Size */}
+          <div className="flex flex-col gap-3 md:w-64">
+            <Label className="text-base font-semibold text-zinc-800">
+              {t("sprite.size")}
+            </Label>
+            <div className="flex items-center gap-3">
+              <div className="flex-1">
+                <Slider
+                  min={40}
+                  max={300}
+                  step={1}
+                  value={[sprite.size]}
+                  onValueChange={(value) =>
+                    setSprite({ ...sprite, size: value[0] })
+                  }
+                />
+              </div>
+              <Input
+                type="number"
+                min={40}
+                max={300}
+                value={sprite.size}
+                onChange={(e) =>
+                  setSprite({
+                    ...sprite,
+                    size: Math.min(300, Math.max(40, Number(e.target.value))),
+                  })
+                }
+                className="w-20"
+              />
+            </div>
+          </div>
+
+          {/* Rotation Offset */}
+          <div className="flex flex-col gap-3 md:w-64">
+            <Label className="text-base font-semibold text-zinc-800">
+              {t("sprite.rotationOffset")}
+            </Label>
+            <div className="flex items-center gap-3">
+              <div className="flex-1">
+                <Slider
+                  min={-180}
+                  max={180}
+                  step={1}
+                  value={[sprite.rotationOffset]}
+                  onValueChange={(value) =>
+                    setSprite({ ...sprite, rotationOffset: value[0] })
+                  }
+                />
+              </div>
+              <Input
+                type="number"
+                min={-180}
+                max={180}
+                value={sprite.rotationOffset}
+                onChange={(e) =>
+                  setSprite({
+                    ...sprite,
+                    rotationOffset: Math.min(
+                      180,
+                      Math.max(-180, Number(e.target.value)),
+                    ),
+                  })
+                }
+                className="w-20"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <Checkbox
+            id="fallingSpriteEnabled"
+            checked={sprite.fallingEnabled}
+            onCheckedChange={(checked) =>
+              setSprite({ ...sprite, fallingEnabled: !!checked })
+            }
+          />
+          <Label
+            htmlFor="fallingSpriteEnabled"
+            className="text-sm cursor-pointer"
+          >
+            {t("sprite.fallingEnable")}
+          </Label>
+        </div>
+
+        {sprite.fallingEnabled && (
+          <SpritePicker
+            kind={sprite.fallingKind}
+            imageUrl={sprite.fallingImageUrl}
+            onChange={(fallingKind, fallingImageUrl) =>
+              setSprite({ ...sprite, fallingKind, fallingImageUrl })
+            }
+            t={t}
+          />
+        )}
+      </div>
     </div>
   );
 }
@@ -38,6 +38,44 @@ import {
 import InfoSection from "./InfoSection";
 import PointsSection from "./PointsSection";
 import SettingsSection from "./SettingsSection";
+import {
+  Annotation,
+  BackgroundConfig,
+  CameraConfig,
+  CardsConfig,
+  ChartType,
+  DEFAULT_CAMERA,
+  DEFAULT_CARDS,
+  DEFAULT_EFFECTS,
+  DEFAULT_OUTRO,
+  DEFAULT_TICKER,
+  DEFAULT_TIMING,
+  DEFAULT_X_AXIS,
+  DEFAULT_Y_AXIS,
+  EffectsConfig,
+  OutroConfig,
+  PathMode,
+  ReferenceLine,
+  SeriesConfig,
+  SpriteConfig,
+  TickerConfig,
+  TimingConfig,
+  TypographyConfig,
+  XAxisConfig,
+  XSpacing,
+  YAxisConfig,
+} from "@/lib/scene";
+import { DEFAULT_THEME, Theme } from "@/lib/themes";
+import { DEFAULT_SPRITE } from "@/lib/sprites";
+import { DEFAULT_NUMBER_FORMAT, NumberFormatConfig } from "@/lib/numberFormat";
+import { DEFAULT_LABEL_TEMPLATES, LabelTemplates } from "@/lib/labelTemplates";
+import { isValidCandle } from "@/lib/candles";
+import { createSeries } from "@/lib/series";
+import { createAnnotation } from "@/lib/annotations";
+import { withReferenceId } from "@/lib/referenceLines";
+import { DEFAULT_BACKGROUND } from "@/lib/backgrounds";
+import { DEFAULT_TYPOGRAPHY } from "@/lib/typography";
+import { DEFAULT_FONTS, FontSettings } from "@/lib/fonts";
 
 type WatermarkConfig = {
   enabled: boolean;
@@ -59,6 +97,12 @@ type WatermarkConfig = {
 type Point = {
   value: number;
   time: string;
+  weight?: number;
+  dwell?: boolean;
+  note?: string;
+  open?: number;
+  high?: number;
+  low?: number;
 };
 
 type Preset = {
@@ -75,6 +119,22 @@ const timeToMinutes = (time: string) => {
   return h * 60 + m;
 };
 
+// Value fields that travel together when a point is moved
+const pickCandle = ({ value, open, high, low }: Point) => ({
+  value,
+  open,
+  high,
+  low,
+});
+
+const timesInOrder = (points: Point[]) =>
+  points.length > 1 &&
+  points.every(
+    (p, i) =>
+      !!p.time &&
+      (i === 0 || timeToMinutes(p.time) > timeToMinutes(points[i - 1].time)),
+  );
+
 const addFiveMinutes = (time: string) => {
   if (!time) return "";
   const [h, m] = time.split(":").map(Number);
@@ -109,6 +169,27 @@ export default function TradeFlightLayout() {
   const [audioFile, setAudioFile] = useState<File | null>(null);
   const [slidingEnabled, setSlidingEnabled] = useState(false);
   const [minVisiblePoints, setMinVisiblePoints] = useState(5);
+  const [xSpacing, setXSpacing] = useState<XSpacing>("index");
+  const [pathMode, setPathMode] = useState<PathMode>("straight");
+  const [chartType, setChartType] = useState<ChartType>("line");
+  const [camera, setCamera] = useState<CameraConfig>(DEFAULT_CAMERA);
+  const [numberFormat, setNumberFormat] = useState<NumberFormatConfig>(
+    DEFAULT_NUMBER_FORMAT,
+  );
+  const [labelTemplates, setLabelTemplates] = useState<LabelTemplates>(
+    DEFAULT_LABEL_TEMPLATES,
+  );
+  const [ticker, setTicker] = useState<TickerConfig>(DEFAULT_TICKER);
+  const [referenceLines, setReferenceLines] = useState<ReferenceLine[]>([]);
+  const [background, setBackground] =
+    useState<BackgroundConfig>(DEFAULT_BACKGROUND);
+  const [typography, setTypography] =
+    useState<TypographyConfig>(DEFAULT_TYPOGRAPHY);
+  const [fonts, setFonts] = useState<FontSettings>(DEFAULT_FONTS);
+  const [effects, setEffects] = useState<EffectsConfig>(DEFAULT_EFFECTS);
+  const [outro, setOutro] = useState<OutroConfig>(DEFAULT_OUTRO);
+  const [cards, setCards] = useState<CardsConfig>(DEFAULT_CARDS);
+  const [timing, setTiming] = useState<TimingConfig>(DEFAULT_TIMING);
 
   /* ---------------- PRESETS ---------------- */
 
@@ -138,6 +219,26 @@ export default function TradeFlightLayout() {
     margin: 60,
   });
 
+  /* ---------------- Y AXIS STATE ---------------- */
+  const [yAxis, setYAxis] = useState<YAxisConfig>(DEFAULT_Y_AXIS);
+
+  /* ---------------- TIME AXIS STATE ---------------- */
+  const [xAxis, setXAxis] = useState<XAxisConfig>(DEFAULT_X_AXIS);
+
+  /* ---------------- THEME STATE ---------------- */
+  const [theme, setTheme] = useState<Theme>(DEFAULT_THEME);
+
+  /* ---------------- PLANE SPRITE STATE ---------------- */
+  const [sprite, setSprite] = useState<SpriteConfig>(DEFAULT_SPRITE);
+
+  /* ---------------- ANNOTATIONS STATE ---------------- */
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+
+  /* ---------------- SERIES STATE ---------------- */
+  const [seriesName, setSeriesName] = useState("");
+  const [series, setSeries] = useState<SeriesConfig[]>([]);
+  const [activeSeries, setActiveSeries] = useState(0);
+
   /* ---------------- LABEL SETTINGS STATE ---------------- */
   const [labelFontSize, setLabelFontSize] = useState(24); // default 24px
   const [labelFontWeight, setLabelFontWeight] = useState("700"); // bold
@@ -147,6 +248,23 @@ export default function TradeFlightLayout() {
   const nameExists = (name: string) =>
     presets.some((p) => p.name.toLowerCase() === name.toLowerCase());
 
+  /*
+    Uploaded fonts and images are kept as data URLs, so a preset can go
+    past the localStorage quota. Storage is written first and the list only
+    changes when that worked, so both always agree.
+  */
+  const storePresets = (updated: Preset[]) => {
+    try {
+      localStorage.setItem("tradeflight-presets", JSON.stringify(updated));
+    } catch {
+      toast.error(t("toast.presetTooLarge"));
+      return false;
+    }
+
+    setPresets(updated);
+    return true;
+  };
+
   const handleSaveAsNew = () => {
     if (!presetName.trim()) {
       setNameError(t("error.presetNameRequired"));
@@ -170,12 +288,33 @@ export default function TradeFlightLayout() {
         watermark,
         labelFontSize,
         labelFontWeight,
+        xSpacing,
+        pathMode,
+        chartType,
+        timing,
+        camera,
+        numberFormat,
+        labelTemplates,
+        ticker,
+        referenceLines,
+        background,
+        typography,
+        fonts,
+        effects,
+        outro,
+        cards,
+        annotations,
+        yAxis,
+        xAxis,
+        theme,
+        sprite,
+        seriesName,
+        series,
       },
     };
 
     const updated = [...presets, newPreset];
-    setPresets(updated);
-    localStorage.setItem("tradeflight-presets", JSON.stringify(updated));
+    if (!storePresets(updated)) return;
 
     toast.success(t("toast.presetSaved"));
 
@@ -217,13 +356,34 @@ export default function TradeFlightLayout() {
               watermark,
               labelFontSize,
               labelFontWeight,
+              xSpacing,
+              pathMode,
+              chartType,
+              timing,
+              camera,
+              numberFormat,
+              labelTemplates,
+              ticker,
+              referenceLines,
+              background,
+              typography,
+              fonts,
+              effects,
+              outro,
+              cards,
+              annotations,
+              yAxis,
+              xAxis,
+              theme,
+              sprite,
+              seriesName,
+              series,
             },
           }
         : p,
     );
 
-    setPresets(updated);
-    localStorage.setItem("tradeflight-presets", JSON.stringify(updated));
+    if (!storePresets(updated)) return;
 
     toast.success(t("toast.presetUpdated"));
 
@@ -243,14 +403,36 @@ export default function TradeFlightLayout() {
     setPresetName(preset.name);
     setLabelFontSize(preset.data.labelFontSize || 24);
     setLabelFontWeight(preset.data.labelFontWeight || "700");
+    setXSpacing(preset.data.xSpacing || "index");
+    setPathMode(preset.data.pathMode || "straight");
+    setChartType(preset.data.chartType || "line");
+    setTiming(preset.data.timing || DEFAULT_TIMING);
+    setCamera(preset.data.camera || DEFAULT_CAMERA);
+    setNumberFormat(preset.data.numberFormat || DEFAULT_NUMBER_FORMAT);
+    setLabelTemplates(preset.data.labelTemplates || DEFAULT_LABEL_TEMPLATES);
+    setTicker(preset.data.ticker || DEFAULT_TICKER);
+    setReferenceLines((preset.data.referenceLines || []).map(withReferenceId));
+    setBackground(preset.data.background || DEFAULT_BACKGROUND);
+    setTypography(preset.data.typography || DEFAULT_TYPOGRAPHY);
+    setFonts(preset.data.fonts || DEFAULT_FONTS);
+    setEffects(preset.data.effects || DEFAULT_EFFECTS);
+    setOutro(preset.data.outro || DEFAULT_OUTRO);
+    setCards(preset.data.cards || DEFAULT_CARDS);
+    setAnnotations(preset.data.annotations || []);
+    setYAxis(preset.data.yAxis || DEFAULT_Y_AXIS);
+    setXAxis(preset.data.xAxis || DEFAULT_X_AXIS);
+    setTheme(preset.data.theme || DEFAULT_THEME);
+    setSprite(preset.data.sprite || DEFAULT_SPRITE);
+    setSeriesName(preset.data.seriesName || "");
+    setSeries(preset.data.series || []);
+    setActiveSeries(0);
 
     toast.success(t("toast.presetLoaded"));
   };
 
   const deletePreset = (id: string) => {
     const updated = presets.filter((p) => p.id !== id);
-    setPresets(updated);
-    localStorage.setItem("tradeflight-presets", JSON.stringify(updated));
+    if (!storePresets(updated)) return;
 
     if (id === activePresetId) {
       setActivePresetId(null);
@@ -284,15 +466,59 @@ export default function TradeFlightLayout() {
     return true;
   };
 
+  // The editor works on one series at a time, 0 is the main points
+  const activePoints =
+    activeSeries === 0 ? points : series[activeSeries - 1].points;
+
+  const setActivePoints = (updated: Point[]) => {
+    if (activeSeries === 0) {
+      setPoints(updated);
+      return;
+    }
+
+    setSeries(
+      series.map((s, i) =>
+        i === activeSeries - 1 ? { ...s, points: updated } : s,
+      ),
+    );
+  };
+
+  const selectSeries = (index: number) => {
+    setActiveSeries(index);
+    validateTimes(index === 0 ? points : series[index - 1].points);
+  };
+
+  const addSeries = () => {
+    const added = createSeries(
+      series.length,
+      `${t("series.defaultName")} ${series.length + 2}`,
+      points.map(({ value, time }) => ({ value, time })),
+    );
+
+    setSeries([...series, added]);
+    setActiveSeries(series.length + 1);
+  };
+
+  const deleteSeries = (index: number) => {
+    setSeries(series.filter((_, i) => i !== index - 1));
+    selectSeries(0);
+  };
+
   const updatePoint = (
     index: number,
-    field: "value" | "time",
+    field: "value" | "time" | "note" | "open" | "high" | "low",
     value: string,
   ) => {
-    const updated = [...points];
+    const updated = [...activePoints];
 
     if (field === "value") updated[index].value = Number(value);
 
+    if (field === "open" || field === "high" || field === "low") {
+      updated[index][field] = value === "" ? undefined : Number(value);
+    }
+
+    if (field === "note") updated[index].note = value;
+
     if (field === "time") {
       updated[index].time = value;
       if (index === 0 && updated[1]) {
@@ -301,48 +527,67 @@ export default function TradeFlightLayout() {
     }
 
     validateTimes(updated);
-    setPoints(updated);
+    setActivePoints(updated);
+  };
+
+  const updatePointTiming = (
+    index: number,
+    changes: Pick<Point, "weight" | "dwell">,
+  ) => {
+    const updated = [...activePoints];
+    updated[index] = { ...updated[index], ...changes };
+    setActivePoints(updated);
   };
 
   const moveValue = (index: number, direction: "up" | "down") => {
     const newIndex = direction === "up" ? index - 1 : index + 1;
 
-    if (newIndex < 0 || newIndex >= points.length) return;
+    if (newIndex < 0 || newIndex >= activePoints.length) return;
 
-    const updated = [...points];
+    const updated = [...activePoints];
 
-    // Swap ONLY values (not time)
-    const temp = updated[index].value;
-    updated[index].value = updated[newIndex].value;
-    updated[newIndex].value = temp;
+    // Swap ONLY values (not time), candles move as a whole
+    const moved = pickCandle(updated[index]);
+    updated[index] = { ...updated[index], ...pickCandle(updated[newIndex]) };
+    updated[newIndex] = { ...updated[newIndex], ...moved };
 
-    setPoints(updated);
+    setActivePoints(updated);
   };
 
   const addPoint = () => {
     if (timeError) return;
-    const last = points[points.length - 1];
+    const last = activePoints[activePoints.length - 1];
 
     const newPoint: Point = {
       value: last.value,
       time: addFiveMinutes(last.time),
     };
 
-    const updated = [...points, newPoint];
+    const updated = [...activePoints, newPoint];
     validateTimes(updated);
-    setPoints(updated);
+    setActivePoints(updated);
   };
 
   const deletePoint = (index: number) => {
     if (index < 2) return;
-    const updated = points.filter((_, i) => i !== index);
+    const updated = activePoints.filter((_, i) => i !== index);
     validateTimes(updated);
-    setPoints(updated);
+    setActivePoints(updated);
   };
 
   const handleGenerate = () => {
     if (timeError) return;
 
+    if (chartType === "candles" && !points.every(isValidCandle)) {
+      toast.error(t("toast.candleInvalid"));
+      return;
+    }
+
+    if (series.some((s) => !timesInOrder(s.points))) {
+      toast.error(t("toast.seriesInvalid"));
+      return;
+    }
+
     const parsedDuration = Number(durationInput);
     if (!parsedDuration || parsedDuration <= 0) {
       toast.error(t("toast.durationInvalid"));
@@ -360,6 +605,28 @@ export default function TradeFlightLayout() {
       labelFontWeight,
       slidingEnabled,
       minVisiblePoints,
+      xSpacing,
+      pathMode,
+      chartType,
+      timing,
+      camera,
+      numberFormat,
+      labelTemplates,
+      ticker,
+      referenceLines,
+      background,
+      typography,
+      fonts,
+      effects,
+      outro,
+      cards,
+      annotations,
+      yAxis,
+      xAxis,
+      theme,
+      sprite,
+      seriesName,
+      series,
     });
   };
   //translations
@@ -520,9 +787,31 @@ export default function TradeFlightLayout() {
         <div className="w-full flex justify-end ">
           <div className="tour-import">
             <ImportPointsDialog
-              onApply={(newPoints) => {
-                validateTimes(newPoints);
-                setPoints(newPoints);
+              onApply={([main, ...extra], importedType, notes) => {
+                validateTimes(main.points);
+                setPoints(main.points);
+                setChartType(importedType);
+                setActiveSeries(0);
+
+                // Annotations point at rows of the old data, so the note
+                // column replaces them, or clears them when there is none
+                setAnnotations(
+                  notes.flatMap((note, i) =>
+                    note ? [createAnnotation(i, note)] : [],
+                  ),
+                );
+
+                // The imported value columns replace the extra series,
+                // keeping the style of the ones already set up. A single
+                // column clears them, their points no longer line up.
+                if (extra.length > 0) setSeriesName(main.name);
+                setSeries(
+                  extra.map((imported, i) => ({
+                    ...(series[i] ?? createSeries(i, imported.name, [])),
+                    name: imported.name,
+                    points: imported.points,
+                  })),
+                );
               }}
             />
           </div>
@@ -550,6 +839,8 @@ export default function TradeFlightLayout() {
                   setTitle={setTitle}
                   description={description}
                   setDescription={setDescription}
+                  typography={typography}
+                  setTypography={setTypography}
                   t={t}
                 />
               </AccordionContent>
@@ -566,8 +857,23 @@ export default function TradeFlightLayout() {
 
               <AccordionContent className="pt-4 pb-6">
                 <PointsSection
-                  points={points}
+                  points={activePoints}
+                  seriesName={seriesName}
+                  setSeriesName={setSeriesName}
+                  series={series}
+                  setSeries={setSeries}
+                  activeSeries={activeSeries}
+                  selectSeries={selectSeries}
+                  addSeries={addSeries}
+                  deleteSeries={deleteSeries}
+                  chartType={chartType}
+                  setChartType={setChartType}
+                  annotations={annotations}
+                  setAnnotations={setAnnotations}
                   updatePoint={updatePoint}
+                  updatePointTiming={updatePointTiming}
+                  timing={timing}
+                  setTiming={setTiming}
                   moveValue={moveValue}
                   deletePoint={deletePoint}
                   addPoint={addPoint}
@@ -602,7 +908,41 @@ export default function TradeFlightLayout() {
                   setSlidingEnabled={setSlidingEnabled}
                   minVisiblePoints={minVisiblePoints}
                   setMinVisiblePoints={setMinVisiblePoints}
+                  xSpacing={xSpacing}
+                  setXSpacing={setXSpacing}
+                  pathMode={pathMode}
+                  setPathMode={setPathMode}
+                  camera={camera}
+                  setCamera={setCamera}
+                  numberFormat={numberFormat}
+                  setNumberFormat={setNumberFormat}
+                  labelTemplates={labelTemplates}
+                  setLabelTemplates={setLabelTemplates}
+                  ticker={ticker}
+                  setTicker={setTicker}
+                  referenceLines={referenceLines}
+                  setReferenceLines={setReferenceLines}
+                  background={background}
+                  setBackground={setBackground}
+                  fonts={fonts}
+                  setFonts={setFonts}
+                  effects={effects}
+                  setEffects={setEffects}
+                  outro={outro}
+                  setOutro={setOutro}
+                  cards={cards}
+                  setCards={setCards}
+                  locale={lang}
+                  yAxis={yAxis}
+                  setYAxis={setYAxis}
+                  xAxis={xAxis}
+                  setXAxis={setXAxis}
+                  theme={theme}
+                  setTheme={setTheme}
+                  sprite={sprite}
+                  setSprite={setSprite}
                   totalPoints={points.length}
+                  startValue={points[0].value}
                   t={t}
                 />
               </AccordionContent>
@@ -678,6 +1018,7 @@ export default function TradeFlightLayout() {
               setIsPresetOpen(false);
             }}
             onDelete={deletePreset}
+            locale={lang}
             t={t}
           />
         </DialogContent>
@@ -691,6 +1032,7 @@ export default function TradeFlightLayout() {
               ref={canvasRef}
               {...generatedConfig}
               audioFile={audioFile}
+              locale={lang}
               t={t}
             />
             <div className="mt-6 w-full max-w-md space-y-3">
@@ -731,7 +1073,7 @@ export default function TradeFlightLayout() {
                   if (!canvasRef.current) return;
                   setIsRecording(true);
                   try {
-                    await canvasRef.current.startRecording();
+                    await canvasRef.current.downloadWebm();
                   } finally {
                     setIsRecording(false);
                   }
@@ -0,0 +1,42 @@
+/*
+  Event annotations
+  --------------------------------
+  Callouts that explain a move ("RBI policy", "Stop hit"). An annotation
+  is anchored to a point by index or by clock time; time anchors snap to
+  the point closest in time, so they survive points being added.
+*/
+
+import { Annotation, Point, timeToMinutes } from "./scene";
+
+export const ANNOTATION_COLOR = "#0ea5e9";
+
+export const createAnnotation = (index: number, text = ""): Annotation => ({
+  text,
+  icon: "📌",
+  color: ANNOTATION_COLOR,
+  anchorType: "index",
+  index,
+  time: "",
+});
+
+// Point the annotation sits on, or -1 when the anchor can't be resolved
+export const annotationIndex = (annotation: Annotation, points: Point[]) => {
+  if (annotation.anchorType === "index") {
+    return annotation.index >= 0 && annotation.index < points.length
+      ? annotation.index
+      : -1;
+  }
+
+  if (!annotation.time) return -1;
+
+  const target = timeToMinutes(annotation.time);
+  let closest = 0;
+  points.forEach((point, i) => {
+    const distance = Math.abs(timeToMinutes(point.time) - target);
+    if (distance < Math.abs(timeToMinutes(points[closest].time) - target)) {
+      closest = i;
+    }
+  });
+
+  return closest;
+};
@@ -0,0 +1,22 @@
+/*
+  Canvas backgrounds
+  --------------------------------
+  Solid backgrounds use the theme color, gradients and images are painted
+  over it. The parallax sky is laid out in scene.ts so clouds move with
+  the camera.
+*/
+
+import { BackgroundConfig } from "./scene";
+
+export const DEFAULT_BACKGROUND: BackgroundConfig = {
+  kind: "solid",
+  from: "#bae6fd",
+  to: "#ffffff",
+  angle: 180,
+  imageUrl: "",
+  fit: "cover",
+  blur: 0,
+  dim: 0,
+  sky: false,
+  cloudColor: "#ffffff",
+};
@@ -0,0 +1,39 @@
+/*
+  Candlestick points
+  --------------------------------
+  In candle mode a point also carries open, high and low; `value` stays the
+  close, so the plane, labels and ticker keep flying over close prices.
+  Missing fields fall back to a flat candle at the close.
+*/
+
+import type { Point } from "./scene";
+
+export interface Candle {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export const candleOf = (point: Point): Candle => {
+  const close = point.value;
+  const open = point.open ?? close;
+
+  return {
+    open,
+    high: point.high ?? Math.max(open, close),
+    low: point.low ?? Math.min(open, close),
+    close,
+  };
+};
+
+// High and low have to contain the body
+export const isValidCandle = (point: Point) => {
+  const { open, high, low, close } = candleOf(point);
+
+  return (
+    [open, high, low, close].every(Number.isFinite) &&
+    low <= Math.min(open, close) &&
+    high >= Math.max(open, close)
+  );
+};
@@ -0,0 +1,134 @@
+/*
+  Canvas fonts
+  --------------------------------
+  Bundled fonts come from next/font, so the canvas uses the same hashed
+  family names the page loads. Uploaded fonts are kept as data URLs
+  (saved with presets) and registered through the FontFace API. The
+  Noto families are always appended so Hindi and Kannada text keeps a
+  proper fallback whatever Latin font is picked.
+*/
+
+import {
+  Inter,
+  Noto_Sans_Devanagari,
+  Noto_Sans_Kannada,
+  Playfair_Display,
+  Poppins,
+  Roboto_Mono,
+} from "next/font/google";
+import { SceneFonts } from "./scene";
+
+const inter = Inter({ subsets: ["latin"] });
+const poppins = Poppins({
+  subsets: ["latin"],
+  weight: ["400", "500", "600", "700"],
+});
+const playfair = Playfair_Display({ subsets: ["latin"] });
+const robotoMono = Roboto_Mono({ subsets: ["latin"] });
+const notoDevanagari = Noto_Sans_Devanagari({ subsets: ["devanagari"] });
+const notoKannada = Noto_Sans_Kannada({ subsets: ["kannada"] });
+
+export const BUNDLED_FONTS = {
+  inter: { name: "Inter", family: inter.style.fontFamily },
+  poppins: { name: "Poppins", family: poppins.style.fontFamily },
+  playfair: { name: "Playfair Display", family: playfair.style.fontFamily },
+  robotoMono: { name: "Roboto Mono", family: robotoMono.style.fontFamily },
+  notoDevanagari: {
+    name: "Noto Sans Devanagari",
+    family: notoDevanagari.style.fontFamily,
+  },
+  notoKannada: {
+    name: "Noto Sans Kannada",
+    family: notoKannada.style.fontFamily,
+  },
+};
+
+export type BundledFont = keyof typeof BUNDLED_FONTS;
+
+export const FONT_FILE_TYPES = ".ttf,.otf,.woff2";
+
+export interface UploadedFont {
+  family: string; // registered name, taken from the file name
+  url: string; // data URL
+}
+
+// Each role holds a bundled font key or the family of an uploaded font
+export interface FontSettings {
+  title: string;
+  labels: string;
+  watermark: string;
+  uploads: UploadedFont[];
+}
+
+export const DEFAULT_FONTS: FontSettings = {
+  title: "inter",
+  labels: "inter",
+  watermark: "inter",
+  uploads: [],
+};
+
+const FALLBACK_STACK = `${notoDevanagari.style.fontFamily}, ${notoKannada.style.fontFamily}, sans-serif`;
+
+// Weights the scene asks for, loaded up front so no frame falls back
+const USED_WEIGHTS = ["400", "500", "600", "700"];
+
+const fontStack = (choice: string, settings: FontSettings) => {
+  if (choice in BUNDLED_FONTS) {
+    return `${BUNDLED_FONTS[choice as BundledFont].family}, ${FALLBACK_STACK}`;
+  }
+
+  if (settings.uploads.some((font) => font.family === choice)) {
+    return `"${choice}", ${FALLBACK_STACK}`;
+  }
+
+  return `${BUNDLED_FONTS.inter.family}, ${FALLBACK_STACK}`;
+};
+
+export const sceneFonts = (settings: FontSettings): SceneFonts => ({
+  title: fontStack(settings.title, settings),
+  labels: fontStack(settings.labels, settings),
+  watermark: fontStack(settings.watermark, settings),
+});
+
+// Uploaded families already added to document.fonts
+const registered = new Map<string, Promise<void>>();
+
+// Rejects when the file is not a font the browser can parse
+export const registerFont = (font: UploadedFont) => {
+  const key = `${font.family}\n${font.url}`;
+  let pending = registered.get(key);
+
+  if (!pending) {
+    const face = new FontFace(font.family, `url(${font.url})`);
+    pending = face.load().then((loaded) => {
+      document.fonts.add(loaded);
+    });
+    pending.catch(() => registered.delete(key));
+    registered.set(key, pending);
+  }
+
+  return pending;
+};
+
+// Registers uploads and waits for every family the scene will draw with
+export const loadFonts = async (settings: FontSettings) => {
+  await Promise.all(settings.uploads.map(registerFont));
+
+  const fonts = sceneFonts(settings);
+  await Promise.all(
+    [fonts.title, fonts.labels, fonts.watermark].flatMap((stack) =>
+      USED_WEIGHTS.map((weight) =>
+        document.fonts.load(`${weight} 32px ${stack}`),
+      ),
+    ),
+  );
+  await document.fonts.ready;
+};
+
+// Family name for an uploaded file: its name without the extension, and
+// without quotes so it can sit inside a CSS font string
+export const fontFamilyOf = (fileName: string) =>
+  fileName
+    .replace(/\.(ttf|otf|woff2)$/i, "")
+    .replace(/["\\]/g, "")
+    .trim() || "Custom Font";
@@ -0,0 +1,191 @@
+/*
+  Label placement solver
+  --------------------------------
+  Every label tries a fixed list of candidate boxes around its point
+  (below, above, the diagonals and both sides), shifted back inside the
+  bounds. The first candidate that stays clear of placed labels, point
+  markers and the flight path wins. Labels are solved in priority order;
+  start and final always get a box, other labels are hidden when no
+  candidate is free. Placement only depends on the points, so labels
+  stay put while the plane flies.
+*/
+
+import type { Box, Vec } from "./scene";
+
+export interface LabelRequest {
+  anchor: Vec;
+  width: number;
+  height: number;
+  priority: number; // higher is placed first
+  required: boolean; // start / final labels are never hidden
+}
+
+export interface LabelPlacement {
+  box: Box;
+  leader: Vec; // where the leader line meets the box
+}
+
+export interface PlacementOptions {
+  bounds: Box;
+  offset: number; // gap between the point and the label
+  markers: Vec[]; // every point marker, labelled or not
+  markerRadius: number;
+  paths: Vec[][]; // flight path polylines of every series, in world space
+}
+
+const overlaps = (a: Box, b: Box) =>
+  !(
+    a.right <= b.left ||
+    a.left >= b.right ||
+    a.bottom <= b.top ||
+    a.top >= b.bottom
+  );
+
+// Liang-Barsky clip test of the segment a-b against the box
+const segmentHitsBox = (a: Vec, b: Vec, box: Box) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let t0 = 0;
+  let t1 = 1;
+
+  const edges: [number, number][] = [
+    [-dx, a.x - box.left],
+    [dx, box.right - a.x],
+    [-dy, a.y - box.top],
+    [dy, box.bottom - a.y],
+  ];
+
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return false;
+      continue;
+    }
+    const r = q / p;
+    if (p < 0) t0 = Math.max(t0, r);
+    else t1 = Math.min(t1, r);
+    if (t0 > t1) return false;
+  }
+
+  return true;
+};
+
+const candidates = (
+  { anchor, width, height }: LabelRequest,
+  offset: number,
+): Box[] => {
+  const below = anchor.y + offset;
+  const above = anchor.y - offset - height;
+  const middle = anchor.y - height / 2;
+
+  const at = (left: number, top: number) => ({
+    left,
+    right: left + width,
+    top,
+    bottom: top + height,
+  });
+
+  return [
+    at(anchor.x - width / 2, below),
+    at(anchor.x - width / 2, above),
+    at(anchor.x + offset / 2, below),
+    at(anchor.x - width - offset / 2, below),
+    at(anchor.x + offset / 2, above),
+    at(anchor.x - width - offset / 2, above),
+    at(anchor.x + offset, middle),
+    at(anchor.x - width - offset, middle),
+  ];
+};
+
+// Shift a box back inside the bounds, as long as it fits at all
+const clampBox = (box: Box, bounds: Box): Box => {
+  const width = box.right - box.left;
+  const height = box.bottom - box.top;
+
+  const left = Math.min(
+    Math.max(box.left, bounds.left),
+    Math.max(bounds.left, bounds.right - width),
+  );
+  const top = Math.min(
+    Math.max(box.top, bounds.top),
+    Math.max(bounds.top, bounds.bottom - height),
+  );
+
+  return { left, right: left + width, top, bottom: top + height };
+};
+
+// Closest point of the box to the anchor, so leaders can run at an angle
+const leaderEnd = (anchor: Vec, box: Box): Vec => ({
+  x: Math.min(Math.max(anchor.x, box.left), box.right),
+  y: Math.min(Math.max(anchor.y, box.top), box.bottom),
+});
+
+export function placeLabels(
+  requests: LabelRequest[],
+  options: PlacementOptions,
+): (LabelPlacement | null)[] {
+  const { bounds, offset, markerRadius, paths } = options;
+
+  const markers: Box[] = options.markers.map((anchor) => ({
+    left: anchor.x - markerRadius,
+    right: anchor.x + markerRadius,
+    top: anchor.y - markerRadius,
+    bottom: anchor.y + markerRadius,
+  }));
+
+  const placed: Box[] = [];
+  const result: (LabelPlacement | null)[] = requests.map(() => null);
+
+  const order = requests
+    .map((_, i) => i)
+    .sort(
+      (a, b) =>
+        Number(requests[b].required) - Number(requests[a].required) ||
+        requests[b].priority - requests[a].priority,
+    );
+
+  const hitsLabel = (box: Box) => placed.some((p) => overlaps(box, p));
+  const hitsMarker = (box: Box) => markers.some((m) => overlaps(box, m));
+  const hitsPath = (box: Box) =>
+    paths.some((path) =>
+      path.some((p, i) => i > 0 && segmentHitsBox(path[i - 1], p, box)),
+    );
+
+  for (const i of order) {
+    const request = requests[i];
+    const boxes = candidates(request, offset).map((box) =>
+      clampBox(box, bounds),
+    );
+
+    let box = boxes.find(
+      (b) => !hitsLabel(b) && !hitsMarker(b) && !hitsPath(b),
+    );
+
+    if (!box && request.required) {
+      // Required labels may cross the path, then stack below as a last resort
+      box = boxes.find((b) => !hitsLabel(b));
+
+      if (!box) {
+        box = { ...boxes[0] };
+        const height = box.bottom - box.top;
+        let moved = true;
+        while (moved) {
+          moved = false;
+          for (const p of placed) {
+            if (overlaps(box, p)) {
+              box.top = p.bottom + offset / 3;
+              box.bottom = box.top + height;
+              moved = true;
+            }
+          }
+        }
+      }
+    }
+
+    if (!box) continue;
+
+    placed.push(box);
+    result[i] = { box, leader: leaderEnd(request.anchor, box) };
+  }
+
+  return result;
+}
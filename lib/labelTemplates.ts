@@ -0,0 +1,47 @@
+/*
+  Label templates
+  --------------------------------
+  Start, middle and final labels each have a template. Tokens in braces
+  are replaced per point (see labelTokens in scene.ts), every line of the
+  template becomes a line of the label and lines left empty are dropped.
+*/
+
+export interface LabelTemplates {
+  start: string;
+  middle: string;
+  final: string;
+}
+
+export const LABEL_TOKENS = [
+  "label",
+  "value",
+  "time",
+  "change",
+  "changePct",
+  "fromStart",
+  "index",
+  "note",
+] as const;
+
+export type LabelToken = (typeof LABEL_TOKENS)[number];
+
+// {label} is the translated "Start" / "Final Destination" caption
+export const DEFAULT_LABEL_TEMPLATES: LabelTemplates = {
+  start: "{label}\n{value} ({time})",
+  middle: "{value} ({time})",
+  final: "{label}\n{value} ({time})",
+};
+
+export const fillTemplate = (
+  template: string,
+  tokens: Record<LabelToken, string>,
+) =>
+  template
+    .replace(/\{(\w+)\}/g, (match, name: string) =>
+      LABEL_TOKENS.includes(name as LabelToken)
+        ? tokens[name as LabelToken]
+        : match,
+    )
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
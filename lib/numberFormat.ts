@@ -0,0 +1,126 @@
+/*
+  Value formatting
+  --------------------------------
+  One formatter for canvas labels, axis ticks and preset cards. Digits,
+  currency symbols and the decimal mark come from Intl.NumberFormat for
+  the active language; grouping is applied here so lakh/crore grouping
+  works the same in every language.
+*/
+
+export type NumberStyle = "plain" | "currency" | "percent";
+
+// none: 1234567, international: 1,234,567, indian: 12,34,567
+export type Grouping = "none" | "international" | "indian";
+
+export interface NumberFormatConfig {
+  style: NumberStyle;
+  currency: string; // ISO 4217 code, e.g. "INR"
+  currencyDisplay: "symbol" | "code";
+  decimals: number | "auto";
+  grouping: Grouping;
+  prefix: string;
+  suffix: string;
+}
+
+// Prints values as they were typed
+export const DEFAULT_NUMBER_FORMAT: NumberFormatConfig = {
+  style: "plain",
+  currency: "INR",
+  currencyDisplay: "symbol",
+  decimals: "auto",
+  grouping: "none",
+  prefix: "",
+  suffix: "",
+};
+
+const groupDigits = (digits: string, grouping: Grouping, separator: string) => {
+  if (grouping === "none" || digits.length <= 3) return digits;
+
+  const head = digits.slice(0, -3);
+  const tail = digits.slice(-3);
+  const size = grouping === "indian" ? 2 : 3;
+
+  const groups: string[] = [];
+  for (let end = head.length; end > 0; end -= size) {
+    groups.unshift(head.slice(Math.max(0, end - size), end));
+  }
+
+  return [...groups, tail].join(separator);
+};
+
+// Formatters are rebuilt for every painted frame otherwise
+const formatterCache = new Map<string, Intl.NumberFormat>();
+const separatorCache = new Map<string | undefined, string>();
+
+// Thousands separator of the language, used by both grouping styles
+const groupSeparator = (locale?: string) => {
+  let separator = separatorCache.get(locale);
+  if (separator === undefined) {
+    separator =
+      new Intl.NumberFormat(locale)
+        .formatToParts(1000000)
+        .find((part) => part.type === "group")?.value ?? ",";
+    separatorCache.set(locale, separator);
+  }
+  return separator;
+};
+
+const buildFormatter = (format: NumberFormatConfig, locale?: string) => {
+  const digits: Intl.NumberFormatOptions =
+    format.decimals === "auto"
+      ? format.style === "currency"
+        ? {}
+        : { maximumFractionDigits: 6 }
+      : {
+          minimumFractionDigits: format.decimals,
+          maximumFractionDigits: format.decimals,
+        };
+
+  const options: Intl.NumberFormatOptions = {
+    ...digits,
+    useGrouping: false,
+    ...(format.style === "currency" && {
+      style: "currency",
+      currency: format.currency,
+      currencyDisplay: format.currencyDisplay,
+    }),
+    ...(format.style === "percent" && { style: "percent" }),
+  };
+
+  try {
+    return new Intl.NumberFormat(locale, options);
+  } catch {
+    // Unknown currency code while it is being typed
+    return new Intl.NumberFormat(locale, { ...digits, useGrouping: false });
+  }
+};
+
+const cachedFormatter = (format: NumberFormatConfig, locale?: string) => {
+  const key = JSON.stringify([locale, format]);
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = buildFormatter(format, locale);
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+};
+
+// Percent mode reads values as percentages already (2.5 -> 2.5%)
+export const formatNumber = (
+  value: number,
+  format: NumberFormatConfig = DEFAULT_NUMBER_FORMAT,
+  locale?: string,
+) => {
+  const separator = groupSeparator(locale);
+
+  const text = cachedFormatter(format, locale)
+    .formatToParts(format.style === "percent" ? value / 100 : value)
+    .map((part) =>
+      part.type === "integer"
+        ? groupDigits(part.value, format.grouping, separator)
+        : part.value,
+    )
+    .join("");
+
+  return `${format.prefix}${text}${format.suffix}`;
+};
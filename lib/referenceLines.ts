@@ -0,0 +1,46 @@
+/*
+  Reference lines
+  --------------------------------
+  Quick-add levels for trading content. Each one starts from the first
+  point's value, nudged up or down so stop loss and target don't sit on
+  the entry line.
+*/
+
+import { ReferenceLine } from "./scene";
+
+export type ReferenceKind =
+  "entry" | "stopLoss" | "target" | "prevClose" | "custom";
+
+export const REFERENCE_KINDS: Record<
+  ReferenceKind,
+  Pick<ReferenceLine, "color" | "dash"> & { offset: number }
+> = {
+  entry: { color: "#2563eb", dash: "solid", offset: 0 },
+  stopLoss: { color: "#dc2626", dash: "dashed", offset: -0.02 },
+  target: { color: "#16a34a", dash: "dashed", offset: 0.02 },
+  prevClose: { color: "#6b7280", dash: "dotted", offset: 0 },
+  custom: { color: "#f59e0b", dash: "solid", offset: 0 },
+};
+
+export const createReferenceLine = (
+  kind: ReferenceKind,
+  label: string,
+  baseValue: number,
+): ReferenceLine => {
+  const { color, dash, offset } = REFERENCE_KINDS[kind];
+  const value = Number((baseValue * (1 + offset)).toFixed(2));
+
+  return {
+    id: crypto.randomUUID(),
+    label,
+    value,
+    color,
+    dash,
+    band: false,
+    bandTo: baseValue,
+  };
+};
+
+// Lines saved before they had ids get one when a preset is loaded
+export const withReferenceId = (line: ReferenceLine): ReferenceLine =>
+  line.id ? line : { ...line, id: crypto.randomUUID() };
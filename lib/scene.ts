@@ -0,0 +1,2788 @@
+/*
+  Scene / layout engine
+  --------------------------------
+  computeScene(config, progress) returns a plain description of what has to
+  be drawn at a given point of the timeline: header text, camera transform,
+  visible path, markers, label boxes, plane pose and watermark placement.
+  The parts that don't move, computeGeometry(config), can be built once and
+  shared by every frame.
+
+  Nothing in here touches React, the DOM or a canvas. The only outside
+  capability it needs is `measureText`, so label boxes can be sized by
+  whatever is doing the painting.
+*/
+
+import { placeLabels } from "./labelPlacement";
+import { Candle, candleOf } from "./candles";
+import { annotationIndex } from "./annotations";
+import { DEFAULT_TYPOGRAPHY, FittedText, fitText } from "./typography";
+import { formatNumber, NumberFormatConfig } from "./numberFormat";
+import {
+  DEFAULT_LABEL_TEMPLATES,
+  fillTemplate,
+  LabelTemplates,
+  LabelToken,
+} from "./labelTemplates";
+
+export interface Point {
+  value: number;
+  time: string;
+  weight?: number; // duration weight of the segment leaving this point
+  dwell?: boolean; // pause here when only chosen points dwell
+  note?: string; // free text for the {note} label token
+  open?: number; // candle mode only, `value` is the close
+  high?: number;
+  low?: number;
+}
+
+export interface WatermarkConfig {
+  enabled: boolean;
+  type: "image" | "text";
+  imageUrl?: string;
+  text?: string;
+  position:
+    | "top-left"
+    | "top-center"
+    | "top-right"
+    | "bottom-left"
+    | "bottom-center"
+    | "bottom-right";
+  sizeRatio: number;
+  opacity: number;
+  margin: number;
+}
+
+// How points are spread along the X axis: evenly by index or by clock time
+export type XSpacing = "index" | "time";
+
+// Straight lines between points or a monotone cubic curve through them
+export type PathMode = "straight" | "smooth";
+
+// Plain value points or OHLC candles drawn under the flight path
+export type ChartType = "line" | "candles";
+
+export interface YAxisConfig {
+  enabled: boolean;
+  gridlines: boolean;
+  tickCount: number; // target count, the nice step decides the final one
+  gridColor: string;
+  labelColor: string;
+  fontSize: number;
+}
+
+export const DEFAULT_Y_AXIS: YAxisConfig = {
+  enabled: false,
+  gridlines: true,
+  tickCount: 5,
+  gridColor: "#e5e7eb",
+  labelColor: "#6b7280",
+  fontSize: 22,
+};
+
+export interface XAxisConfig {
+  enabled: boolean;
+  lineColor: string;
+  labelColor: string;
+  fontSize: number;
+}
+
+export const DEFAULT_X_AXIS: XAxisConfig = {
+  enabled: false,
+  lineColor: "#d4d4d8",
+  labelColor: "#6b7280",
+  fontSize: 22,
+};
+
+export type SpriteKind =
+  "plane" | "rocket" | "car" | "bull" | "bear" | "custom";
+
+export interface SpriteConfig {
+  kind: SpriteKind;
+  imageUrl?: string; // uploaded PNG/SVG when kind is "custom"
+  size: number; // px of the sprite's longest side
+  rotationOffset: number; // degrees, for artwork that doesn't face right
+  fallingEnabled: boolean; // swap the sprite while the segment goes down
+  fallingKind: SpriteKind;
+  fallingImageUrl?: string;
+}
+
+export type Easing = "linear" | "easeIn" | "easeOut" | "easeInOut";
+
+export interface TimingConfig {
+  easing: Easing; // applied to the whole flight
+  dwellMs: number; // pause length at a point
+  dwellAll: boolean; // pause at every point instead of the chosen ones
+}
+
+export const DEFAULT_TIMING: TimingConfig = {
+  easing: "linear",
+  dwellMs: 500,
+  dwellAll: false,
+};
+
+/*
+  slide:    horizontal sliding window (when sliding is enabled)
+  follow:   sliding plus a vertically stretched world that tracks the plane
+  chase:    close-up that keeps the plane centred
+  overview: static, the whole chart stays in view
+*/
+export type CameraMode = "slide" | "follow" | "chase" | "overview";
+
+export interface CameraConfig {
+  mode: CameraMode;
+  zoom: number; // vertical stretch in follow mode, close-up scale in chase mode
+  zoomOut: boolean; // zoom out to the whole path after the flight
+  zoomOutMs: number;
+  holdMs: number; // still frame at the very end
+}
+
+export type OutroMotion = "land" | "hover";
+
+// Sequence after the zoom-out, before the final hold
+export interface OutroConfig {
+  enabled: boolean;
+  durationMs: number;
+  motion: OutroMotion; // settle on the final point or hover above it
+  summary: boolean; // card with total change, percent and max drawdown
+  celebration: boolean; // confetti when up, a dimmed screen when down
+}
+
+export type CardTransition = "fade" | "slide";
+
+// Full-screen card shown before (intro) or after (outro) the chart
+export interface TitleCardConfig {
+  enabled: boolean;
+  durationMs: number;
+  title: string;
+  subtitle: string;
+  cta: string; // call to action pill, e.g. "Follow @handle"
+  showLogo: boolean; // reuses the watermark image
+  background: string;
+  transition: CardTransition; // out of the intro card, into the outro card
+}
+
+export interface CardsConfig {
+  intro: TitleCardConfig;
+  outro: TitleCardConfig;
+}
+
+export type Corner = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export interface TickerConfig {
+  enabled: boolean;
+  position: Corner;
+  fontSize: number; // size of the value, the change line is smaller
+}
+
+export const DEFAULT_TICKER: TickerConfig = {
+  enabled: false,
+  position: "top-right",
+  fontSize: 48,
+};
+
+// Effect intensities 0 - 1, 0 turns the effect off
+export interface EffectsConfig {
+  contrail: number; // fading smoke behind the plane
+  glow: number; // current segment
+  sparkles: number; // burst when a point sets a new high
+  pulse: number; // ring on each marker as the plane arrives
+}
+
+export const DEFAULT_EFFECTS: EffectsConfig = {
+  contrail: 0,
+  glow: 0,
+  sparkles: 0,
+  pulse: 0,
+};
+
+// CSS font-family stacks, resolved from the font picker before rendering
+export interface SceneFonts {
+  title: string; // title and description
+  labels: string; // point labels, axes, legend, callouts and ticker
+  watermark: string;
+}
+
+export const DEFAULT_SCENE_FONTS: SceneFonts = {
+  title: "Inter, sans-serif",
+  labels: "Inter, sans-serif",
+  watermark: "Inter, sans-serif",
+};
+
+// Header text: wrapped to the canvas width, shrunk until it fits maxLines
+export interface TypographyConfig {
+  align: SceneText["align"];
+  maxLines: number; // per text, the last line gets an ellipsis past this
+  autoShrink: boolean;
+  titleSize: number; // px, upper bound when shrinking
+  descriptionSize: number;
+}
+
+// Solid uses the theme background, the other kinds paint over it
+export type BackgroundKind = "solid" | "linear" | "radial" | "image";
+
+export interface BackgroundConfig {
+  kind: BackgroundKind;
+  from: string; // gradient stops
+  to: string;
+  angle: number; // degrees, linear gradients only
+  imageUrl?: string; // uploaded data URL
+  fit: "cover" | "contain";
+  blur: number; // px
+  dim: number; // 0 - 1 black overlay over the image
+  sky: boolean; // parallax clouds
+  cloudColor: string;
+}
+
+// Event callout, anchored to a point index or to the point closest in time
+export interface Annotation {
+  text: string;
+  icon: string; // emoji shown before the text, may be empty
+  color: string;
+  anchorType: "index" | "time";
+  index: number;
+  time: string;
+}
+
+export type DashStyle = "solid" | "dashed" | "dotted";
+
+// Horizontal level such as entry, stop loss, target or previous close
+export interface ReferenceLine {
+  id: string; // keeps the editor rows apart when lines are removed
+  label: string;
+  value: number;
+  color: string;
+  dash: DashStyle;
+  band: boolean; // shade between this level and bandTo
+  bandTo: number;
+}
+
+// Labels of an extra series: every point, start and final only, or none
+export type SeriesLabelStyle = "all" | "ends" | "none";
+
+// Extra series flown next to the main points on the same scale
+export interface SeriesConfig {
+  name: string;
+  color: string; // path, markers, legend swatch and label outline
+  sprite: SpriteConfig;
+  labelStyle: SeriesLabelStyle;
+  points: Point[];
+}
+
+export interface SceneConfig {
+  points: Point[];
+  width: number;
+  height: number;
+  duration: number; // seconds of flight
+  title?: string;
+  description?: string;
+  watermark?: WatermarkConfig;
+  watermarkAspect?: number; // naturalWidth / naturalHeight once the image is loaded
+  labelFontSize: number;
+  labelFontWeight: string;
+  slidingEnabled: boolean;
+  minVisiblePoints: number;
+  xSpacing: XSpacing;
+  pathMode?: PathMode;
+  chartType?: ChartType;
+  timing?: TimingConfig;
+  camera?: CameraConfig;
+  numberFormat?: NumberFormatConfig;
+  locale?: string; // active UI language, for Intl formatting
+  yAxis?: YAxisConfig;
+  xAxis?: XAxisConfig;
+  sprite?: SpriteConfig;
+  spriteAspect?: number; // naturalWidth / naturalHeight of the loaded sprite
+  fallingSpriteAspect?: number;
+  labelText: { start: string; finalDestination: string };
+  labelTemplates?: LabelTemplates;
+  ticker?: TickerConfig;
+  referenceLines?: ReferenceLine[];
+  annotations?: Annotation[];
+  background?: BackgroundConfig;
+  typography?: TypographyConfig;
+  fonts?: SceneFonts;
+  effects?: EffectsConfig;
+  outro?: OutroConfig;
+  cards?: CardsConfig;
+  summaryText?: {
+    title: string;
+    change: string;
+    percent: string;
+    drawdown: string;
+  };
+  seriesName?: string; // legend entry of the main points
+  series?: SeriesConfig[];
+  seriesSpriteAspects?: { aspect?: number; fallingAspect?: number }[];
+  measureText: (text: string, font: string) => number;
+}
+
+/* ---------------- SCENE OUTPUT ---------------- */
+
+export interface Vec {
+  x: number;
+  y: number;
+}
+
+export interface Box {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+export interface SceneText {
+  text: string;
+  x: number;
+  y: number;
+  font: string;
+  align: "left" | "center" | "right";
+}
+
+// screen = world * scale + translate
+export interface SceneCamera {
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+  translateX: number;
+  translateY: number;
+}
+
+// Drawn part of one original segment, a polyline in smooth mode
+export interface SceneSegment {
+  points: Vec[];
+  rising: boolean;
+}
+
+// Candle in world space, already grown by its reveal progress
+export interface SceneCandle {
+  x: number;
+  width: number;
+  wickTop: number;
+  wickBottom: number;
+  bodyTop: number;
+  bodyBottom: number;
+  rising: boolean; // close at or above open
+}
+
+export interface SceneLabel {
+  kind: "start" | "middle" | "final";
+  anchor: Vec;
+  box: Box;
+  leader: Vec; // leader line runs from the anchor to here
+  lines: string[];
+  font: string;
+  padding: number;
+  lineHeight: number;
+  color?: string; // outline of labels that belong to an extra series
+}
+
+// Callout bubble, placed with the labels and popped in on arrival
+export interface SceneCallout {
+  anchor: Vec;
+  box: Box;
+  leader: Vec;
+  text: SceneText;
+  color: string;
+  scale: number; // pop-in scale around the leader end, overshoots slightly
+}
+
+// Y axis is laid out in screen space, already through the camera
+export interface SceneYAxis {
+  ticks: { value: number; label: string; y: number }[];
+  labelX: number;
+  gridLeft: number;
+  gridRight: number;
+  gridlines: boolean;
+  gridColor: string;
+  labelColor: string;
+  font: string;
+}
+
+// Reference level across the chart, screen space like the Y axis
+export interface SceneReferenceLine {
+  y: number;
+  left: number;
+  right: number;
+  color: string;
+  dash: number[]; // canvas line dash pattern
+  label: SceneText;
+  band?: { top: number; bottom: number };
+}
+
+// Time ruler along the bottom, screen space like the Y axis
+export interface SceneXAxis {
+  ticks: { minutes: number; label: string; x: number }[];
+  y: number;
+  left: number;
+  right: number;
+  lineColor: string;
+  labelColor: string;
+  font: string;
+}
+
+export interface ScenePlane extends Vec {
+  angle: number; // heading plus the sprite's rotation offset
+  width: number;
+  height: number;
+  falling: boolean; // current segment goes down
+}
+
+export type SceneWatermark =
+  | {
+      type: "image";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      opacity: number;
+    }
+  | (SceneText & { type: "text"; opacity: number });
+
+export interface SceneSeries {
+  name: string;
+  color: string;
+  path: SceneSegment[];
+  markers: Vec[];
+  plane: ScenePlane;
+}
+
+// Legend row under the header, shown when there is more than one series
+export interface SceneLegend {
+  box: Box;
+  entries: { text: SceneText; swatch: Box; color?: string }[]; // no color: main series
+}
+
+// Running value HUD, green / red by the change from start
+export interface SceneTicker {
+  box: Box;
+  value: SceneText;
+  change: SceneText;
+  rising: boolean;
+}
+
+// Cloud of the parallax sky, screen space
+export interface SceneCloud extends Vec {
+  size: number;
+  opacity: number;
+}
+
+// Round particle in world space
+export interface SceneParticle extends Vec {
+  radius: number;
+  opacity: number;
+}
+
+// Main plane effects, world space and derived from the clock only
+export interface SceneEffects {
+  contrail: SceneParticle[]; // oldest first
+  glow?: SceneSegment & { blur: number };
+  sparkles: SceneParticle[];
+  pulses: SceneParticle[]; // rings, stroked
+}
+
+// Confetti piece, screen space
+export interface SceneConfetti extends Vec {
+  width: number;
+  height: number;
+  angle: number;
+  color: string;
+  opacity: number;
+}
+
+// Result card of the outro, screen space
+export interface SceneSummary {
+  box: Box;
+  title: SceneText;
+  rows: { label: SceneText; value: SceneText; rising: boolean }[];
+  rising: boolean; // overall result
+  opacity: number;
+}
+
+export interface SceneOutro {
+  dim: number; // black overlay opacity, negative results only
+  summary?: SceneSummary;
+  confetti: SceneConfetti[];
+}
+
+// Intro / outro card, screen space; offsetY moves the whole card
+export interface SceneCard {
+  background: string;
+  color: string; // text, picked for contrast with the background
+  opacity: number;
+  offsetY: number;
+  logo?: { x: number; y: number; width: number; height: number };
+  title: SceneText[];
+  subtitle: SceneText[];
+  cta?: { box: Box; text: SceneText };
+}
+
+export interface Scene {
+  width: number;
+  height: number;
+  flightProgress: number; // 0 - 1, plane travel
+  zoomProgress: number; // 0 - 1, end-of-flight zoom-out
+  title: SceneText[]; // one entry per wrapped line
+  description: SceneText[];
+  camera: SceneCamera;
+  clouds: SceneCloud[];
+  yAxis?: SceneYAxis;
+  xAxis?: SceneXAxis;
+  referenceLines: SceneReferenceLine[];
+  path: SceneSegment[];
+  candles: SceneCandle[];
+  markers: Vec[];
+  labels: SceneLabel[];
+  callouts: SceneCallout[];
+  plane: ScenePlane;
+  effects: SceneEffects;
+  series: SceneSeries[];
+  legend?: SceneLegend;
+  ticker?: SceneTicker;
+  outro?: SceneOutro;
+  watermark?: SceneWatermark;
+  card?: SceneCard; // drawn over everything else
+}
+
+/* ---------------- TIMELINE ---------------- */
+
+// Timeline tail after the flight: zoom-out phase, outro, then a short hold
+export const ZOOM_DURATION = 1200;
+export const END_HOLD = 600;
+
+export const DEFAULT_CAMERA: CameraConfig = {
+  mode: "slide",
+  zoom: 2,
+  zoomOut: true,
+  zoomOutMs: ZOOM_DURATION,
+  holdMs: END_HOLD,
+};
+
+export const DEFAULT_OUTRO: OutroConfig = {
+  enabled: false,
+  durationMs: 3000,
+  motion: "land",
+  summary: true,
+  celebration: true,
+};
+
+const DEFAULT_CARD: TitleCardConfig = {
+  enabled: false,
+  durationMs: 2500,
+  title: "",
+  subtitle: "",
+  cta: "",
+  showLogo: true,
+  background: "#0f172a",
+  transition: "fade",
+};
+
+export const DEFAULT_CARDS: CardsConfig = {
+  intro: DEFAULT_CARD,
+  outro: { ...DEFAULT_CARD, durationMs: 3000 },
+};
+
+// Samples per segment used to measure and draw smooth curves
+const CURVE_STEPS = 32;
+// Coarser samples of the same curves that label placement keeps clear of
+const LABEL_CURVE_STEPS = 8;
+
+export const DASH_PATTERNS: Record<DashStyle, number[]> = {
+  solid: [],
+  dashed: [18, 12],
+  dotted: [4, 10],
+};
+
+// Point markers and the space labels keep from the canvas edges
+export const MARKER_RADIUS = 12;
+const LABEL_SAFE_PADDING = 24;
+
+// Default sprite size when no sprite config is given
+export const PLANE_SIZE = 110;
+
+// Depth layers of the sky: far clouds are smaller, fainter and slower
+const SKY_LAYERS = [
+  { speed: 0.15, size: 60, opacity: 0.35, count: 4 },
+  { speed: 0.35, size: 90, opacity: 0.5, count: 3 },
+  { speed: 0.6, size: 130, opacity: 0.7, count: 2 },
+];
+
+// Slow drift in px per ms, so clouds also move when the camera doesn't
+const CLOUD_DRIFT = 0.03;
+
+// Header text keeps this distance from the canvas sides
+const HEADER_MARGIN = 60;
+
+// Baseline to baseline, relative to the font size
+const HEADER_LINE_HEIGHT = 1.25;
+
+// Length of the callout pop-in once the plane reaches the point
+const CALLOUT_POP_MS = 400;
+
+// Contrail puffs sit at fixed distances along the path so they don't crawl
+const CONTRAIL_SPACING = 14;
+const CONTRAIL_LENGTH = 420; // px of trail at full intensity
+
+const SPARKLE_MS = 900;
+const SPARKLE_COUNT = 18; // particles per burst at full intensity
+
+const PULSE_MS = 700;
+const PULSE_SPREAD = 60; // px the ring grows at full intensity
+
+// Outro timing, from the start of the outro
+const OUTRO_SETTLE_MS = 800;
+const HOVER_PERIOD_MS = 1400;
+const HOVER_AMPLITUDE = 14;
+const SUMMARY_DELAY_MS = 400;
+const SUMMARY_IN_MS = 500;
+
+// Falling pieces: colorful confetti for gains, slow grey ash for losses
+const CONFETTI = {
+  count: 90,
+  colors: ["#f43f5e", "#f59e0b", "#22c55e", "#3b82f6", "#a855f7"],
+  speed: 0.45, // px per ms
+  size: 18,
+};
+const ASH = {
+  count: 30,
+  colors: ["#94a3b8", "#64748b"],
+  speed: 0.12,
+  size: 8,
+};
+
+// Intro / outro card cross-fade or slide, at most half the card
+const CARD_TRANSITION_MS = 500;
+
+type TimelineConfig = Pick<
+  SceneConfig,
+  "duration" | "camera" | "outro" | "cards"
+>;
+
+const cardMs = (card?: TitleCardConfig) =>
+  card?.enabled ? card.durationMs : 0;
+
+// Chart part of the timeline, between the intro and outro cards
+const chartDuration = (config: TimelineConfig) => {
+  const camera = config.camera ?? DEFAULT_CAMERA;
+  return (
+    config.duration * 1000 +
+    (camera.zoomOut ? camera.zoomOutMs : 0) +
+    (config.outro?.enabled ? config.outro.durationMs : 0) +
+    camera.holdMs
+  );
+};
+
+export const getTimelineDuration = (config: TimelineConfig) =>
+  cardMs(config.cards?.intro) +
+  chartDuration(config) +
+  cardMs(config.cards?.outro);
+
+/* ---------------- HELPERS ---------------- */
+
+// Drawn sprite box: the longest side matches the configured size
+export const spriteBox = (size: number, aspect = 1) =>
+  aspect >= 1
+    ? { width: size, height: size / aspect }
+    : { width: size * aspect, height: size };
+
+export const timeToMinutes = (time: string) => {
+  if (!time) return 0;
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+export const formatAMPM = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  const suffix = h >= 12 ? "PM" : "AM";
+  const hour = h % 12 || 12;
+  return `${hour}:${m.toString().padStart(2, "0")} ${suffix}`;
+};
+
+const signed = (value: number, text: string) => (value > 0 ? `+${text}` : text);
+
+// Clock time between two "HH:MM" times, e.g. "+1h 15m"
+const formatElapsed = (from: string, to: string) => {
+  const minutes = timeToMinutes(to) - timeToMinutes(from);
+  const sign = minutes < 0 ? "-" : "+";
+  const hours = Math.floor(Math.abs(minutes) / 60);
+  const rest = Math.abs(minutes) % 60;
+
+  if (!hours) return `${sign}${rest}m`;
+  return rest ? `${sign}${hours}h ${rest}m` : `${sign}${hours}h`;
+};
+
+// Token values of a point for the label templates
+export const labelTokens = (
+  points: Point[],
+  index: number,
+  label: string,
+  formatValue: (value: number) => string,
+): Record<LabelToken, string> => {
+  const point = points[index];
+  const previous = points[Math.max(index - 1, 0)];
+  const change = point.value - previous.value;
+  const changePct = previous.value ? (change / previous.value) * 100 : 0;
+
+  return {
+    label,
+    value: formatValue(point.value),
+    time: formatAMPM(point.time),
+    change: signed(change, formatValue(change)),
+    changePct: signed(changePct, `${changePct.toFixed(2)}%`),
+    fromStart: formatElapsed(points[0].time, point.time),
+    index: `${index + 1}`,
+    note: point.note ?? "",
+  };
+};
+
+/*
+  "Nice number" step for roughly `count` ticks over a range
+  (1, 2, 5 or 10 times a power of ten).
+*/
+const niceStep = (range: number, count: number) => {
+  const rough = range / Math.max(count - 1, 1);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const fraction = rough / magnitude;
+
+  const nice = fraction < 1.5 ? 1 : fraction < 3 ? 2 : fraction < 7 ? 5 : 10;
+
+  return nice * magnitude;
+};
+
+// Tick values on nice steps that fall inside [min, max]
+export const niceTicks = (min: number, max: number, count: number) => {
+  if (!(max > min)) return [min];
+
+  const step = niceStep(max - min, count);
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  const ticks: number[] = [];
+
+  for (let k = Math.ceil(min / step); k * step <= max + step * 1e-9; k++) {
+    ticks.push(Number((k * step).toFixed(decimals)));
+  }
+
+  return ticks;
+};
+
+const minutesToTime = (minutes: number) =>
+  `${Math.floor(minutes / 60) % 24}:${(minutes % 60).toString().padStart(2, "0")}`;
+
+// Candidate time ruler intervals in minutes, smallest first
+const TIME_TICK_INTERVALS = [1, 5, 15, 30, 60, 120, 240, 360, 720];
+
+// Smallest interval that keeps ticks at least `minSpacing` px apart
+export const pickTimeInterval = (pxPerMinute: number, minSpacing: number) =>
+  TIME_TICK_INTERVALS.find((step) => step * pxPerMinute >= minSpacing) ??
+  TIME_TICK_INTERVALS[TIME_TICK_INTERVALS.length - 1];
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+const easeOutBack = (t: number) =>
+  1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2);
+
+export const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  easeIn: (t) => t * t * t,
+  easeOut: easeOutCubic,
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(2 - 2 * t, 3) / 2),
+};
+
+const watermarkTextSize = (config: SceneConfig) =>
+  config.width * (config.watermark?.sizeRatio ?? 0) * 0.2;
+
+/* ---------------- PATH CURVES ---------------- */
+
+// Position and heading at t (0 - 1) along one segment
+type Curve = (t: number) => Vec & { angle: number };
+
+const linearCurve = (start: Vec, end: Vec): Curve => {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  return (t) => ({
+    x: start.x + (end.x - start.x) * t,
+    y: start.y + (end.y - start.y) * t,
+    angle,
+  });
+};
+
+/*
+  Monotone cubic (Fritsch-Butland) through the points
+  --------------------------------
+  Tangents are weighted harmonic means of the neighbouring slopes, and
+  zero at local extremes, so the curve never overshoots a point's value.
+  Segments without horizontal extent (same time in time mode) stay straight.
+*/
+const buildSmoothCurves = (pts: Vec[]): Curve[] => {
+  const h = pts.slice(1).map((p, i) => p.x - pts[i].x);
+  const d = pts
+    .slice(1)
+    .map((p, i) => (h[i] > 0 ? (p.y - pts[i].y) / h[i] : 0));
+
+  const m = pts.map((_, i) => {
+    if (i === 0) return d[0] ?? 0;
+    if (i === pts.length - 1) return d[i - 1];
+    const [h0, h1, d0, d1] = [h[i - 1], h[i], d[i - 1], d[i]];
+    if (d0 * d1 <= 0) return 0;
+    return (3 * (h0 + h1)) / ((2 * h1 + h0) / d0 + (h1 + 2 * h0) / d1);
+  });
+
+  return h.map((dx, i) => {
+    const start = pts[i];
+    const end = pts[i + 1];
+    if (dx <= 0) return linearCurve(start, end);
+
+    return (t) => {
+      const t2 = t * t;
+      const t3 = t2 * t;
+      const y =
+        (2 * t3 - 3 * t2 + 1) * start.y +
+        (t3 - 2 * t2 + t) * dx * m[i] +
+        (-2 * t3 + 3 * t2) * end.y +
+        (t3 - t2) * dx * m[i + 1];
+      const dy =
+        (6 * t2 - 6 * t) * start.y +
+        (3 * t2 - 4 * t + 1) * dx * m[i] +
+        (-6 * t2 + 6 * t) * end.y +
+        (3 * t2 - 2 * t) * dx * m[i + 1];
+      return { x: start.x + dx * t, y, angle: Math.atan2(dy, dx) };
+    };
+  });
+};
+
+// Sampled polylines give the arc length, so speed stays constant on curves
+interface SampledCurve {
+  samples: Vec[];
+  lengths: number[];
+  length: number;
+}
+
+const buildCurves = (pts: Vec[], pathMode?: PathMode) =>
+  pathMode === "smooth"
+    ? buildSmoothCurves(pts)
+    : pts.slice(1).map((end, i) => linearCurve(pts[i], end));
+
+const sampleCurves = (curves: Curve[], steps: number): SampledCurve[] =>
+  curves.map((curve) => {
+    const samples: Vec[] = Array.from({ length: steps + 1 }, (_, k) => {
+      const { x, y } = curve(k / steps);
+      return { x, y };
+    });
+    const lengths = samples
+      .slice(1)
+      .map((s, k) => Math.hypot(s.x - samples[k].x, s.y - samples[k].y));
+    return {
+      samples,
+      lengths,
+      length: lengths.reduce((a, b) => a + b, 0),
+    };
+  });
+
+interface Flight {
+  path: SceneSegment[];
+  head?: Vec & { angle: number }; // unset until the first segment starts
+  falling: boolean;
+  segmentProgress: number[]; // 0 - 1 travelled share of every segment
+}
+
+// Visible path and plane pose after `distance` along the sampled curves
+const flyAlong = (
+  pts: (Vec & { value: number })[],
+  curves: Curve[],
+  sampled: SampledCurve[],
+  distance: number,
+): Flight => {
+  const flight: Flight = {
+    path: [],
+    falling: false,
+    segmentProgress: sampled.map(() => 0),
+  };
+  let remaining = distance;
+
+  for (let i = 0; i < sampled.length; i++) {
+    if (remaining <= 0) break;
+
+    const { samples, lengths, length } = sampled[i];
+    const steps = lengths.length;
+    const start = pts[i];
+    const end = pts[i + 1];
+
+    // Walk the samples until the travelled distance runs out
+    let t = 1;
+    let k = 0;
+    let left = Math.min(remaining, length);
+    while (k < steps && left > lengths[k]) {
+      left -= lengths[k];
+      k++;
+    }
+    if (remaining < length && k < steps) {
+      t = (k + (lengths[k] ? left / lengths[k] : 1)) / steps;
+    }
+
+    const head = curves[i](t);
+    flight.segmentProgress[i] = length ? Math.min(remaining / length, 1) : 1;
+
+    flight.path.push({
+      points: [
+        ...samples.slice(0, Math.min(k + 1, steps)),
+        { x: head.x, y: head.y },
+      ],
+      rising: end.value >= start.value,
+    });
+
+    flight.head = head;
+    flight.falling = end.value < start.value;
+
+    remaining -= length;
+  }
+
+  return flight;
+};
+
+/* ---------------- TIMING ---------------- */
+
+/*
+  Distance along the path after flightProgress of the flight
+  --------------------------------
+  The flight time is split into dwells at the chosen points and moving
+  time. Each segment moves for a share proportional to its length times
+  its weight, so weights of 1 keep a constant speed.
+*/
+const travelledDistance = (
+  config: SceneConfig,
+  lengths: number[],
+  flightProgress: number,
+) => {
+  const { points, timing } = config;
+
+  const weighted = lengths.map(
+    (len, i) => len * Math.max(points[i].weight ?? 1, 0),
+  );
+  const totalWeighted = weighted.reduce((a, b) => a + b, 0);
+
+  const dwellsAt = (i: number) =>
+    !!timing &&
+    timing.dwellMs > 0 &&
+    i < points.length - 1 &&
+    (timing.dwellAll || !!points[i].dwell);
+
+  const flightMs = config.duration * 1000;
+  const dwellCount = lengths.filter((_, i) => dwellsAt(i)).length;
+
+  // Dwells never take more than half of the flight
+  const dwellMs =
+    timing && dwellCount
+      ? Math.min(timing.dwellMs, (flightMs * 0.5) / dwellCount)
+      : 0;
+  const movingMs = flightMs - dwellMs * dwellCount;
+
+  let clock = EASINGS[timing?.easing ?? "linear"](flightProgress) * flightMs;
+  let distance = 0;
+
+  for (let i = 0; i < lengths.length; i++) {
+    if (dwellsAt(i)) {
+      if (clock <= dwellMs) return distance;
+      clock -= dwellMs;
+    }
+
+    const segmentMs = totalWeighted
+      ? (movingMs * weighted[i]) / totalWeighted
+      : 0;
+
+    if (clock < segmentMs) return distance + (lengths[i] * clock) / segmentMs;
+
+    clock -= segmentMs;
+    distance += lengths[i];
+  }
+
+  return distance;
+};
+
+// Flight progress at which `distance` is reached, by bisection since
+// dwells and easing have no closed-form inverse
+const progressAtDistance = (
+  config: SceneConfig,
+  lengths: number[],
+  distance: number,
+) => {
+  let low = 0;
+  let high = 1;
+  for (let k = 0; k < 24; k++) {
+    const mid = (low + high) / 2;
+    if (travelledDistance(config, lengths, mid) >= distance) high = mid;
+    else low = mid;
+  }
+  return high;
+};
+
+// Stable noise in [0, 1) for integer inputs, the same on every frame
+const pseudoRandom = (a: number, b: number) => {
+  const seed = Math.sin(a * 12.9898 + b * 78.233) * 43758.5453;
+  return seed - Math.floor(seed);
+};
+
+/* ---------------- SKY ---------------- */
+
+// Clouds wrap around horizontally, each layer shifted by its own speed
+const computeClouds = (
+  config: SceneConfig,
+  offsetX: number,
+  elapsed: number,
+): SceneCloud[] =>
+  SKY_LAYERS.flatMap((layer, l) =>
+    Array.from({ length: layer.count }, (_, i) => {
+      // Fixed pseudo-random spread
+      const r = pseudoRandom(l + 1, i + 1);
+
+      const span = config.width + layer.size * 4;
+      const base = (i / layer.count + r * 0.3) * span;
+      const shift = (offsetX + elapsed * CLOUD_DRIFT) * layer.speed;
+
+      return {
+        x: ((((base - shift) % span) + span) % span) - layer.size * 2,
+        y: config.height * (0.08 + r * 0.6),
+        size: layer.size,
+        opacity: layer.opacity,
+      };
+    }),
+  );
+
+/* ---------------- EFFECTS ---------------- */
+
+/*
+  Contrail behind the head of the path
+  --------------------------------
+  Puff n sits n * CONTRAIL_SPACING along the path, so a puff keeps its
+  place in the world while the plane moves away and only its age changes.
+  The first puffs are hidden under the sprite.
+*/
+const contrailPuffs = (
+  path: SceneSegment[],
+  travelled: number,
+  hidden: number,
+  intensity: number,
+): SceneParticle[] => {
+  const line = path.flatMap((segment) => segment.points);
+  if (intensity <= 0 || line.length < 2) return [];
+
+  const length = CONTRAIL_LENGTH * intensity;
+  const puffs: SceneParticle[] = [];
+
+  // Walk back from the head, j is the vertex reached after `walked` px
+  let j = line.length - 1;
+  let walked = 0;
+
+  for (let n = Math.floor(travelled / CONTRAIL_SPACING); n >= 0; n--) {
+    const offset = travelled - n * CONTRAIL_SPACING;
+    if (offset > hidden + length) break;
+    if (offset < hidden) continue;
+
+    let step = Math.hypot(line[j].x - line[j - 1].x, line[j].y - line[j - 1].y);
+    while (walked + step < offset && j > 1) {
+      walked += step;
+      j--;
+      step = Math.hypot(line[j].x - line[j - 1].x, line[j].y - line[j - 1].y);
+    }
+    if (walked + step < offset) break;
+
+    const t = step ? (offset - walked) / step : 0;
+    const age = (offset - hidden) / length;
+    const drift = (pseudoRandom(n, 7) - 0.5) * 16 * age;
+
+    puffs.push({
+      x: line[j].x + (line[j - 1].x - line[j].x) * t + drift,
+      y: line[j].y + (line[j - 1].y - line[j].y) * t - 10 * age,
+      radius: 5 + 20 * age,
+      opacity: (1 - age) * 0.6,
+    });
+  }
+
+  return puffs.reverse();
+};
+
+// Particles of a sparkle burst `age` (0 - 1) after it started
+const sparkleBurst = (
+  anchor: Vec,
+  seed: number,
+  age: number,
+  intensity: number,
+): SceneParticle[] =>
+  Array.from({ length: Math.round(SPARKLE_COUNT * intensity) }, (_, k) => {
+    const angle = pseudoRandom(seed, k) * Math.PI * 2;
+    const reach = (40 + 80 * pseudoRandom(k, seed)) * easeOutCubic(age);
+
+    return {
+      x: anchor.x + Math.cos(angle) * reach,
+      y: anchor.y + Math.sin(angle) * reach + 40 * age * age,
+      radius: (2 + 4 * pseudoRandom(seed + k, 3)) * (1 - age * 0.5),
+      opacity: 1 - age,
+    };
+  });
+
+/* ---------------- OUTRO ---------------- */
+
+// Pieces falling from the top edge `since` ms after the burst started
+const fallingPieces = (
+  width: number,
+  height: number,
+  since: number,
+  fadeIn: number,
+  style: typeof CONFETTI,
+): SceneConfetti[] =>
+  Array.from({ length: style.count }, (_, k) => {
+    const delay = pseudoRandom(k, 12) * 400;
+    const t = since - delay;
+    const speed = style.speed * (0.7 + 0.6 * pseudoRandom(k, 13));
+    const y = -style.size + speed * t;
+    if (t < 0 || y > height + style.size) return [];
+
+    return [
+      {
+        x: pseudoRandom(k, 11) * width + Math.sin(t / 300 + k) * 30,
+        y,
+        width: style.size,
+        height: style.size * 0.5,
+        angle: (t / 250) * (pseudoRandom(k, 14) - 0.5) * 4,
+        color: style.colors[k % style.colors.length],
+        opacity: fadeIn,
+      },
+    ];
+  }).flat();
+
+// Largest fall from a running peak, as a value and a percent of the peak
+const maxDrawdown = (points: Point[]) => {
+  let peak = points[0].value;
+  let value = 0;
+  let percent = 0;
+
+  points.forEach((point) => {
+    peak = Math.max(peak, point.value);
+    if (peak - point.value > value) {
+      value = peak - point.value;
+      percent = peak ? (value / peak) * 100 : 0;
+    }
+  });
+
+  return { value, percent };
+};
+
+/* ---------------- LAYOUT ---------------- */
+
+const titleFont = (fonts: SceneFonts) => (size: number) =>
+  `bold ${size}px ${fonts.title}`;
+const descriptionFont = (fonts: SceneFonts) => (size: number) =>
+  `${size}px ${fonts.title}`;
+
+// Wrapped header text, shared by the layout (height) and the scene (lines)
+const headerTextOf = (config: SceneConfig) => {
+  const typography = config.typography ?? DEFAULT_TYPOGRAPHY;
+  const fonts = config.fonts ?? DEFAULT_SCENE_FONTS;
+  const maxWidth = config.width - HEADER_MARGIN * 2;
+
+  const fit = (text: string, size: number, font: (size: number) => string) =>
+    fitText(text, size, maxWidth, typography, (line, lineSize) =>
+      config.measureText(line, font(lineSize)),
+    );
+
+  return {
+    typography,
+    title: config.title
+      ? fit(config.title, typography.titleSize, titleFont(fonts))
+      : undefined,
+    description: config.description
+      ? fit(
+          config.description,
+          typography.descriptionSize,
+          descriptionFont(fonts),
+        )
+      : undefined,
+  };
+};
+
+// Shared by point labels and axis ticks so both read the same
+const valueFormatter = (config: SceneConfig) => (value: number) =>
+  formatNumber(value, config.numberFormat, config.locale);
+
+const textBlockHeight = ({ lines, size }: FittedText) =>
+  lines.length * size * HEADER_LINE_HEIGHT;
+
+export interface SceneLayout {
+  watermarkTopOffset: number;
+  watermarkBottomOffset: number;
+  headerBottom: number;
+  chartTop: number;
+  chartLeft: number;
+  chartRight: number;
+  graphWidth: number;
+  graphHeight: number;
+}
+
+/*
+  Static part of the layout: header height, watermark safe areas and the
+  chart rectangle. It does not depend on progress.
+*/
+export function computeLayout(config: SceneConfig): SceneLayout {
+  const { width, height, watermark, labelFontSize } = config;
+
+  // -------------------------
+  // SAFE PADDING SYSTEM
+  // -------------------------
+  let headerHeight = 120;
+  let watermarkTopOffset = 0;
+  let watermarkBottomOffset = 0;
+
+  if (watermark?.enabled) {
+    const maxWidth = width * watermark.sizeRatio;
+
+    let wmHeight = 0;
+
+    if (watermark.type === "image" && config.watermarkAspect) {
+      wmHeight = maxWidth / config.watermarkAspect;
+    }
+
+    if (watermark.type === "text" && watermark.text) {
+      wmHeight = watermarkTextSize(config);
+    }
+
+    if (watermark.position.startsWith("top")) {
+      watermarkTopOffset = wmHeight + watermark.margin * 0.5;
+    }
+
+    if (watermark.position.startsWith("bottom")) {
+      watermarkBottomOffset = wmHeight + watermark.margin * 0.5;
+    }
+  }
+
+  headerHeight += watermarkTopOffset;
+
+  // Measured lines plus the spacing a single default line always had
+  const header = headerTextOf(config);
+  if (header.title) headerHeight += textBlockHeight(header.title) + 50;
+  if (header.description) {
+    headerHeight += textBlockHeight(header.description) + 60;
+  }
+
+  const gapBelowHeader = 120;
+
+  /*
+  Dynamic padding calculation
+  --------------------------------
+  Base safe zone + scaling based on label size
+*/
+
+  // Bottom padding scales more aggressively
+  const baseBottom = watermark?.enabled ? 350 : 280;
+  const dynamicBottomPadding = baseBottom + labelFontSize * 6;
+
+  const baseSide = 200;
+  const dynamicSidePadding = baseSide + labelFontSize * 2;
+
+  // Plane compensation (optical balance)
+  // Half the horizontal extent of the widest sprite at its resting rotation
+  const sprite = config.sprite;
+  const size = sprite?.size ?? PLANE_SIZE;
+  const offset = ((sprite?.rotationOffset ?? 0) * Math.PI) / 180;
+  const aspects = [config.spriteAspect];
+  if (sprite?.fallingEnabled) aspects.push(config.fallingSpriteAspect);
+  const planeCompensation = Math.max(
+    ...aspects.map((aspect) => {
+      const box = spriteBox(size, aspect);
+      return (
+        (box.width * Math.abs(Math.cos(offset)) +
+          box.height * Math.abs(Math.sin(offset))) /
+        2
+      );
+    }),
+  );
+
+  // Small visual adjustment (tweakable)
+  const opticalAdjustment = 20;
+
+  const leftPadding = dynamicSidePadding;
+  const rightPadding =
+    dynamicSidePadding + planeCompensation + opticalAdjustment;
+
+  const bottomPadding = dynamicBottomPadding + watermarkBottomOffset;
+
+  const chartTop = headerHeight + gapBelowHeader;
+  const chartBottom = height - bottomPadding;
+
+  const chartLeft = leftPadding;
+  const chartRight = width - rightPadding;
+
+  return {
+    watermarkTopOffset,
+    watermarkBottomOffset,
+    headerBottom: headerHeight,
+    chartTop,
+    chartLeft,
+    chartRight,
+    graphWidth: chartRight - chartLeft,
+    graphHeight: chartBottom - chartTop,
+  };
+}
+
+/* ---------------- GEOMETRY ---------------- */
+
+// Points and sampled curves of one extra series, in world space
+interface SeriesGeometry {
+  series: SeriesConfig;
+  index: number; // position in config.series
+  seriesPoints: (Vec & { value: number })[];
+  curves: Curve[];
+  sampled: SampledCurve[];
+}
+
+/*
+  Everything that stays put while the plane flies: point positions,
+  sampled curves, the legend and the placed labels and callouts.
+  Placement tests every label candidate against the whole path, so
+  renderers build this once per config and hand it to computeScene.
+*/
+export interface SceneGeometry {
+  layout: SceneLayout;
+  sliding: boolean;
+  visibleCount: number;
+  times: number[]; // minutes of every point
+  minTime: number;
+  timeSpan: number;
+  candles: Candle[];
+  minValue: number;
+  maxValue: number;
+  worldHeight: number;
+  valueToY: (value: number) => number;
+  calculatedPoints: (Vec & { value: number; time: string })[];
+  curves: Curve[];
+  sampled: SampledCurve[];
+  segmentLengths: number[];
+  arrivals: number[]; // clock time (ms) the main plane reaches each point
+  seriesGeometry: SeriesGeometry[];
+  legend?: SceneLegend;
+  labels: SceneLabel[];
+  // Shown once the plane reaches point `index`, popped in by computeScene
+  callouts: (Omit<SceneCallout, "scale"> & { index: number })[];
+}
+
+export function computeGeometry(config: SceneConfig): SceneGeometry {
+  const {
+    points,
+    width,
+    height,
+    slidingEnabled,
+    minVisiblePoints,
+    labelFontSize,
+    labelFontWeight,
+  } = config;
+
+  const fonts = config.fonts ?? DEFAULT_SCENE_FONTS;
+  const formatValue = valueFormatter(config);
+
+  const layout = computeLayout(config);
+  const { chartTop, chartLeft, graphWidth, graphHeight } = layout;
+
+  const cameraConfig = config.camera ?? DEFAULT_CAMERA;
+  const cameraMode = cameraConfig.mode;
+
+  /* ===============================
+     POINT SCALING
+  =============================== */
+
+  const totalPoints = points.length;
+
+  // Chase and overview frame the chart themselves, without a sliding window
+  const sliding =
+    slidingEnabled && (cameraMode === "slide" || cameraMode === "follow");
+
+  const visibleCount = sliding
+    ? Math.max(2, Math.min(minVisiblePoints, totalPoints))
+    : totalPoints;
+
+  // In time mode the window still holds visibleCount points on average
+  const virtualGraphWidth =
+    sliding && totalPoints > visibleCount
+      ? (graphWidth / (visibleCount - 1)) * (totalPoints - 1)
+      : graphWidth;
+
+  const times = points.map((p) => timeToMinutes(p.time));
+  const minTime = Math.min(...times);
+  const timeSpan = Math.max(...times) - minTime;
+
+  // Horizontal position as a 0 - 1 fraction of the virtual graph width,
+  // extra series share the time scale of the main points
+  const xFraction = (series: Point[], i: number) =>
+    config.xSpacing === "time" && timeSpan > 0
+      ? (timeToMinutes(series[i].time) - minTime) / timeSpan
+      : i / (series.length - 1 || 1);
+
+  const candleMode = config.chartType === "candles";
+  const candles = candleMode ? points.map(candleOf) : [];
+
+  const extraSeries = config.series ?? [];
+
+  // One scale for every series and level, and wicks have to fit as well
+  const sharedValues = [
+    ...extraSeries.flatMap((s) => s.points.map((p) => p.value)),
+    ...(config.referenceLines ?? []).flatMap((line) =>
+      line.band ? [line.value, line.bandTo] : [line.value],
+    ),
+  ];
+  const maxValue = Math.max(
+    ...(candleMode ? candles.map((c) => c.high) : points.map((p) => p.value)),
+    ...sharedValues,
+  );
+  const minValue = Math.min(
+    ...(candleMode ? candles.map((c) => c.low) : points.map((p) => p.value)),
+    ...sharedValues,
+  );
+
+  // Follow mode stretches values over a taller world so swings stay visible
+  const worldHeight =
+    cameraMode === "follow" ? graphHeight * cameraConfig.zoom : graphHeight;
+
+  const valueToY = (value: number) =>
+    chartTop +
+    worldHeight -
+    ((value - minValue) / (maxValue - minValue || 1)) * worldHeight;
+
+  const calculatedPoints = points.map((point, i) => {
+    const x = chartLeft + xFraction(points, i) * virtualGraphWidth;
+    const y = valueToY(point.value);
+
+    return {
+      x,
+      y,
+      value: point.value,
+      time: formatAMPM(point.time),
+    };
+  });
+
+  /* ===============================
+     PATH GEOMETRY
+  =============================== */
+
+  const curveSteps = config.pathMode === "smooth" ? CURVE_STEPS : 1;
+
+  const curves = buildCurves(calculatedPoints, config.pathMode);
+  const sampled = sampleCurves(curves, curveSteps);
+  const segmentLengths = sampled.map((seg) => seg.length);
+
+  // Clock time (ms) at which the main plane reaches every point, found by
+  // bisection, so worked out once here rather than on every frame
+  const flightMs = config.duration * 1000;
+  const arrivals = points.map(
+    (_, index) =>
+      progressAtDistance(
+        config,
+        segmentLengths,
+        segmentLengths.slice(0, index).reduce((a, b) => a + b, 0),
+      ) * flightMs,
+  );
+
+  /* ===============================
+     EXTRA SERIES
+  =============================== */
+
+  const seriesGeometry = extraSeries.flatMap((series, index) => {
+    if (series.points.length < 2) return [];
+
+    const seriesPoints = series.points.map((point, i) => ({
+      x: chartLeft + xFraction(series.points, i) * virtualGraphWidth,
+      y: valueToY(point.value),
+      value: point.value,
+    }));
+    const seriesCurves = buildCurves(seriesPoints, config.pathMode);
+
+    return [
+      {
+        series,
+        index,
+        seriesPoints,
+        curves: seriesCurves,
+        sampled: sampleCurves(seriesCurves, curveSteps),
+      },
+    ];
+  });
+
+  /* ===============================
+     LEGEND (SCREEN SPACE)
+  =============================== */
+
+  let legend: SceneLegend | undefined;
+
+  if (seriesGeometry.length > 0) {
+    const legendFont = `600 ${labelFontSize}px ${fonts.labels}`;
+    const swatchSize = labelFontSize * 0.8;
+    const swatchGap = labelFontSize * 0.4;
+    const entryGap = labelFontSize * 1.2;
+    const rowHeight = labelFontSize * 1.6;
+    const legendPadding = 16;
+    const maxRowWidth = width - LABEL_SAFE_PADDING * 2 - legendPadding * 2;
+
+    const items = [
+      { name: config.seriesName ?? "", color: undefined as string | undefined },
+      ...seriesGeometry.map(({ series }) => ({
+        name: series.name,
+        color: series.color,
+      })),
+    ].map((item) => ({
+      ...item,
+      width: swatchSize + swatchGap + config.measureText(item.name, legendFont),
+    }));
+
+    // Wrap entries into centred rows that fit the canvas
+    const rows: { items: typeof items; width: number }[] = [];
+    items.forEach((item) => {
+      const row = rows[rows.length - 1];
+      if (row && row.width + entryGap + item.width <= maxRowWidth) {
+        row.items.push(item);
+        row.width += entryGap + item.width;
+      } else {
+        rows.push({ items: [item], width: item.width });
+      }
+    });
+
+    const boxWidth =
+      Math.max(...rows.map((row) => row.width)) + legendPadding * 2;
+    const top = layout.headerBottom;
+    const box = {
+      left: (width - boxWidth) / 2,
+      right: (width + boxWidth) / 2,
+      top,
+      bottom: top + rows.length * rowHeight + legendPadding * 2,
+    };
+
+    legend = {
+      box,
+      entries: rows.flatMap((row, r) => {
+        const centerY = top + legendPadding + rowHeight * (r + 0.5);
+        let x = (width - row.width) / 2;
+
+        return row.items.map((item) => {
+          const entry = {
+            swatch: {
+              left: x,
+              right: x + swatchSize,
+              top: centerY - swatchSize / 2,
+              bottom: centerY + swatchSize / 2,
+            },
+            text: {
+              text: item.name,
+              x: x + swatchSize + swatchGap,
+              y: centerY + labelFontSize * 0.35,
+              font: legendFont,
+              align: "left" as const,
+            },
+            color: item.color,
+          };
+          x += item.width + entryGap;
+          return entry;
+        });
+      }),
+    };
+  }
+
+  /* ===============================
+     LABELS
+  =============================== */
+
+  const baseOffset = 40;
+
+  const font = `${labelFontWeight} ${labelFontSize}px ${fonts.labels}`;
+  const padding = 14;
+  const lineHeight = labelFontSize * 1.4;
+
+  const templates = config.labelTemplates ?? DEFAULT_LABEL_TEMPLATES;
+
+  // Label candidates of one series, extra series caption their ends with
+  // the series name and outline their boxes in the series color
+  const labelsOf = (
+    series: Point[],
+    positions: (Vec & { value: number })[],
+    captions: { start: string; final: string },
+    style: SeriesLabelStyle,
+    color?: string,
+  ) =>
+    positions.flatMap((p, index) => {
+      const kind: SceneLabel["kind"] =
+        index === 0
+          ? "start"
+          : index === positions.length - 1
+            ? "final"
+            : "middle";
+
+      if (style === "none" || (style === "ends" && kind === "middle")) {
+        return [];
+      }
+
+      const caption = kind === "middle" ? "" : captions[kind];
+
+      return [
+        {
+          kind,
+          lines: fillTemplate(
+            templates[kind],
+            labelTokens(series, index, caption, formatValue),
+          ),
+          anchor: { x: p.x, y: p.y },
+          // Bigger moves matter more when there is no room for every label
+          priority:
+            index > 0 ? Math.abs(p.value - positions[index - 1].value) : 0,
+          // Only the main start and final labels are never hidden
+          required: !color && kind !== "middle",
+          color,
+        },
+      ];
+    });
+
+  const labelContent = [
+    ...labelsOf(
+      points,
+      calculatedPoints,
+      {
+        start: config.labelText.start,
+        final: config.labelText.finalDestination,
+      },
+      "all",
+    ),
+    ...seriesGeometry.flatMap(({ series, seriesPoints }) =>
+      labelsOf(
+        series.points,
+        seriesPoints,
+        { start: series.name, final: series.name },
+        series.labelStyle,
+        series.color,
+      ),
+    ),
+  ];
+
+  // Templates that render to nothing leave the point unlabelled
+  const labelled = labelContent.filter((label) => label.lines.length > 0);
+
+  // Keep clear of the header, the time ruler and the watermark, in world
+  // space (the sliding / follow world is larger than the canvas)
+  const labelsBottom = config.xAxis?.enabled
+    ? height - layout.watermarkBottomOffset - config.xAxis.fontSize * 4
+    : height - layout.watermarkBottomOffset;
+
+  // Annotations on the main points, never hidden by the solver
+  const calloutFont = `600 ${labelFontSize}px ${fonts.labels}`;
+  const calloutPadding = 12;
+
+  const calloutContent = (config.annotations ?? []).flatMap((annotation) => {
+    const index = annotationIndex(annotation, points);
+    const text = `${annotation.icon} ${annotation.text}`.trim();
+    if (index < 0 || !text) return [];
+
+    const { x, y } = calculatedPoints[index];
+
+    return [
+      {
+        text,
+        color: annotation.color,
+        anchor: { x, y },
+        index,
+      },
+    ];
+  });
+
+  const placements = placeLabels(
+    [
+      ...labelled.map(({ lines, anchor, priority, required }) => ({
+        anchor,
+        width:
+          Math.max(...lines.map((l) => config.measureText(l, font))) +
+          padding * 2,
+        height: lines.length * lineHeight + padding * 2,
+        priority,
+        required,
+      })),
+      ...calloutContent.map(({ text, anchor }) => ({
+        anchor,
+        width: config.measureText(text, calloutFont) + calloutPadding * 2,
+        height: labelFontSize * 1.4 + calloutPadding * 2,
+        priority: 0,
+        required: true,
+      })),
+    ],
+    {
+      bounds: {
+        left: LABEL_SAFE_PADDING,
+        right: width - LABEL_SAFE_PADDING + virtualGraphWidth - graphWidth,
+        top: (legend?.box.bottom ?? layout.headerBottom) + LABEL_SAFE_PADDING,
+        bottom: labelsBottom - LABEL_SAFE_PADDING + worldHeight - graphHeight,
+      },
+      offset: baseOffset,
+      markers: [
+        ...calculatedPoints,
+        ...seriesGeometry.flatMap((g) => g.seriesPoints),
+      ].map((p) => ({ x: p.x, y: p.y })),
+      markerRadius: MARKER_RADIUS,
+      paths: [curves, ...seriesGeometry.map((g) => g.curves)].map((segs) =>
+        sampleCurves(segs, Math.min(curveSteps, LABEL_CURVE_STEPS)).flatMap(
+          (seg, i) => (i === 0 ? seg.samples : seg.samples.slice(1)),
+        ),
+      ),
+    },
+  );
+
+  const labels: SceneLabel[] = [];
+
+  placements.slice(0, labelled.length).forEach((placement, i) => {
+    if (!placement) return;
+
+    const { kind, lines, anchor, color } = labelled[i];
+
+    labels.push({
+      kind,
+      lines,
+      anchor,
+      box: placement.box,
+      leader: placement.leader,
+      font,
+      padding,
+      lineHeight,
+      color,
+    });
+  });
+
+  const callouts: SceneGeometry["callouts"] = [];
+
+  placements.slice(labelled.length).forEach((placement, i) => {
+    const { text, color, anchor, index } = calloutContent[i];
+    if (!placement) return;
+
+    const { box } = placement;
+
+    callouts.push({
+      anchor,
+      box,
+      leader: placement.leader,
+      text: {
+        text,
+        x: (box.left + box.right) / 2,
+        y: box.top + calloutPadding + labelFontSize * 1.1,
+        font: calloutFont,
+        align: "center",
+      },
+      color,
+      index,
+    });
+  });
+
+  return {
+    layout,
+    sliding,
+    visibleCount,
+    times,
+    minTime,
+    timeSpan,
+    candles,
+    minValue,
+    maxValue,
+    worldHeight,
+    valueToY,
+    calculatedPoints,
+    curves,
+    sampled,
+    segmentLengths,
+    arrivals,
+    seriesGeometry,
+    legend,
+    labels,
+    callouts,
+  };
+}
+
+/* ---------------- SCENE ---------------- */
+
+/*
+  progress is the position on the whole timeline (0 - 1), see
+  getTimelineDuration. The intro card, flight, zoom-out, outro and outro
+  card phases are derived from it. geometry is built from the config when
+  it isn't passed in.
+*/
+export function computeScene(
+  config: SceneConfig,
+  progress: number,
+  geometry = computeGeometry(config),
+): Scene {
+  const { points, width, height, slidingEnabled, labelFontSize } = config;
+
+  const fonts = config.fonts ?? DEFAULT_SCENE_FONTS;
+  const formatValue = valueFormatter(config);
+
+  const {
+    layout,
+    sliding,
+    visibleCount,
+    times,
+    minTime,
+    timeSpan,
+    candles,
+    minValue,
+    maxValue,
+    worldHeight,
+    valueToY,
+    calculatedPoints,
+    curves,
+    sampled,
+    segmentLengths,
+    arrivals,
+    seriesGeometry,
+    legend,
+    labels,
+  } = geometry;
+  const { chartTop, chartLeft, chartRight, graphWidth, graphHeight } = layout;
+  const totalPoints = points.length;
+
+  const animationDuration = config.duration * 1000;
+  const clock =
+    Math.min(Math.max(progress, 0), 1) * getTimelineDuration(config);
+
+  // Chart clock, held at its ends while the intro and outro cards show
+  const elapsed = Math.min(
+    Math.max(clock - cardMs(config.cards?.intro), 0),
+    chartDuration(config),
+  );
+
+  const flightProgress = Math.min(elapsed / animationDuration, 1);
+
+  const cameraConfig = config.camera ?? DEFAULT_CAMERA;
+  const cameraMode = cameraConfig.mode;
+
+  /* ===============================
+     ZOOM OUT PHASE CONTROL
+  =============================== */
+
+  const slideFinished = flightProgress >= 1;
+
+  const zoomProgress =
+    slideFinished && cameraConfig.zoomOut
+      ? Math.min(
+          (elapsed - animationDuration) / (cameraConfig.zoomOutMs || 1),
+          1,
+        )
+      : 0;
+
+  /* ===============================
+     PLANE POSITION + VISIBLE PATH
+  =============================== */
+
+  // Sprite pose at the head of a flight, resting on the first point before
+  const planeAt = (
+    flight: Flight,
+    start: Vec,
+    sprite?: SpriteConfig,
+    aspect?: number,
+    fallingAspect?: number,
+  ): ScenePlane => {
+    const size = sprite?.size ?? PLANE_SIZE;
+    const rotationOffset = ((sprite?.rotationOffset ?? 0) * Math.PI) / 180;
+    const head = flight.head ?? { ...start, angle: 0 };
+    const swapped = flight.falling && sprite?.fallingEnabled;
+
+    return {
+      x: head.x,
+      y: head.y,
+      angle: head.angle + rotationOffset,
+      ...spriteBox(size, swapped ? fallingAspect : aspect),
+      falling: flight.falling,
+    };
+  };
+
+  const travelled = travelledDistance(config, segmentLengths, flightProgress);
+  const flight = flyAlong(calculatedPoints, curves, sampled, travelled);
+
+  const { path, segmentProgress } = flight;
+  const flightPlane = planeAt(
+    flight,
+    calculatedPoints[0],
+    config.sprite,
+    config.spriteAspect,
+    config.fallingSpriteAspect,
+  );
+
+  // Outro: level out over the final point, then sit on it or hover above
+  const outroConfig = config.outro ?? DEFAULT_OUTRO;
+  const outroStart =
+    animationDuration + (cameraConfig.zoomOut ? cameraConfig.zoomOutMs : 0);
+  // Capped at the outro length so the final hold stays a still frame
+  const sinceOutro = outroConfig.enabled
+    ? Math.min(elapsed - outroStart, outroConfig.durationMs)
+    : -1;
+
+  let plane = flightPlane;
+  if (sinceOutro > 0) {
+    const settle = easeOutBack(Math.min(sinceOutro / OUTRO_SETTLE_MS, 1));
+    const rotationOffset =
+      ((config.sprite?.rotationOffset ?? 0) * Math.PI) / 180;
+    const box = spriteBox(
+      config.sprite?.size ?? PLANE_SIZE,
+      config.spriteAspect,
+    );
+    const lift =
+      outroConfig.motion === "hover"
+        ? box.height * 1.2 +
+          Math.sin((sinceOutro / HOVER_PERIOD_MS) * Math.PI * 2) *
+            HOVER_AMPLITUDE
+        : box.height / 2;
+
+    plane = {
+      ...flightPlane,
+      ...box,
+      y: flightPlane.y - lift * settle,
+      angle: flightPlane.angle + (rotationOffset - flightPlane.angle) * settle,
+      falling: false,
+    };
+  }
+
+  /* ===============================
+     EXTRA SERIES
+  =============================== */
+
+  // Same clock as the main plane, each series with its own weights and dwells
+  const seriesScenes = seriesGeometry.map(
+    ({ series, index, seriesPoints, curves: seriesCurves, sampled }) => {
+      const seriesFlight = flyAlong(
+        seriesPoints,
+        seriesCurves,
+        sampled,
+        travelledDistance(
+          { ...config, points: series.points },
+          sampled.map((seg) => seg.length),
+          flightProgress,
+        ),
+      );
+      const aspects = config.seriesSpriteAspects?.[index];
+
+      const scene: SceneSeries = {
+        name: series.name,
+        color: series.color,
+        path: seriesFlight.path,
+        markers: seriesPoints.map(({ x, y }) => ({ x, y })),
+        plane: planeAt(
+          seriesFlight,
+          seriesPoints[0],
+          series.sprite,
+          aspects?.aspect,
+          aspects?.fallingAspect,
+        ),
+      };
+
+      return scene;
+    },
+  );
+
+  /* ===============================
+     CANDLES
+  =============================== */
+
+  // Narrowest gap between points decides the body width
+  const candleGap = Math.min(
+    ...calculatedPoints.slice(1).map((p, i) => p.x - calculatedPoints[i].x),
+  );
+  const candleWidth = Math.min(Math.max(candleGap * 0.6, 6), 48);
+
+  // A candle grows out of its open while the plane flies in to its close
+  const sceneCandles: SceneCandle[] = candles.flatMap((candle, i) => {
+    const grow = i === 0 ? 1 : segmentProgress[i - 1];
+    if (grow <= 0) return [];
+
+    const openY = valueToY(candle.open);
+    const grown = (value: number) => openY + (valueToY(value) - openY) * grow;
+    const closeY = grown(candle.close);
+
+    return {
+      x: calculatedPoints[i].x,
+      width: candleWidth,
+      wickTop: grown(candle.high),
+      wickBottom: grown(candle.low),
+      bodyTop: Math.min(openY, closeY),
+      bodyBottom: Math.max(openY, closeY),
+      rising: candle.close >= candle.open,
+    };
+  });
+
+  /* ===============================
+     CAMERA FOLLOW
+  =============================== */
+
+  let cameraOffsetX = 0;
+  let cameraOffsetY = 0;
+
+  const leftBoundary = calculatedPoints[0].x;
+  const rightBoundary = calculatedPoints[calculatedPoints.length - 1].x;
+
+  const totalTraverseWidth = rightBoundary - leftBoundary;
+
+  const chartCenterX = chartLeft + graphWidth / 2;
+  const chartCenterY = chartTop + graphHeight / 2;
+
+  if (sliding && totalPoints > visibleCount) {
+    const totalScrollableWidth = rightBoundary - chartLeft;
+
+    const maxCameraOffset = totalScrollableWidth - graphWidth;
+
+    if (maxCameraOffset > 0) {
+      const targetOffset = plane.x - chartLeft - graphWidth / 2;
+
+      cameraOffsetX = Math.max(0, Math.min(targetOffset, maxCameraOffset));
+    }
+  }
+
+  if (cameraMode === "follow") {
+    // Keep the plane vertically centred without leaving the stretched world
+    cameraOffsetY = Math.max(
+      0,
+      Math.min(plane.y - chartCenterY, worldHeight - graphHeight),
+    );
+  }
+
+  const flightCamera: SceneCamera =
+    cameraMode === "chase"
+      ? {
+          offsetX: cameraOffsetX,
+          offsetY: cameraOffsetY,
+          scale: cameraConfig.zoom,
+          translateX: chartCenterX - plane.x * cameraConfig.zoom,
+          translateY: chartCenterY - plane.y * cameraConfig.zoom,
+        }
+      : {
+          offsetX: cameraOffsetX,
+          offsetY: cameraOffsetY,
+          scale: 1,
+          translateX: -cameraOffsetX,
+          translateY: -cameraOffsetY,
+        };
+
+  let camera = flightCamera;
+
+  // Only cameras that leave the overview need to zoom back out
+  const cameraMoves =
+    cameraMode === "slide" ? slidingEnabled : cameraMode !== "overview";
+
+  const zoomActive =
+    cameraMoves &&
+    cameraConfig.zoomOut &&
+    slideFinished &&
+    totalTraverseWidth > 0;
+
+  if (zoomActive) {
+    // Fit to almost full canvas width (remove graph padding effect)
+    const usableCanvasWidth = points.length <= 10 ? width * 0.85 : width * 0.9; // 2% margin each side
+
+    let fitScale = usableCanvasWidth / totalTraverseWidth;
+
+    // The stretched follow world has to fit vertically as well
+    if (worldHeight > graphHeight) {
+      fitScale = Math.min(fitScale, graphHeight / worldHeight);
+    }
+
+    const eased = easeOutCubic(zoomProgress);
+    const lerp = (from: number, to: number) => from + (to - from) * eased;
+
+    const traverseCenter = leftBoundary + totalTraverseWidth / 2;
+    const worldCenterY = chartTop + worldHeight / 2;
+
+    camera = {
+      offsetX: cameraOffsetX,
+      offsetY: cameraOffsetY,
+      scale: lerp(flightCamera.scale, fitScale),
+      translateX: lerp(
+        flightCamera.translateX,
+        width / 2 - traverseCenter * fitScale,
+      ),
+      translateY: lerp(
+        flightCamera.translateY,
+        chartCenterY - worldCenterY * fitScale,
+      ),
+    };
+  }
+
+  /* ===============================
+     AXES (SCREEN SPACE)
+  =============================== */
+
+  const toScreenX = (x: number) => x * camera.scale + camera.translateX;
+  const toScreenY = (y: number) => y * camera.scale + camera.translateY;
+
+  // While zooming out the path grows past the chart rectangle,
+  // but never past a 5% margin of the canvas
+  const gridLeft = zoomActive
+    ? Math.min(chartLeft, Math.max(toScreenX(leftBoundary), width * 0.05))
+    : chartLeft;
+  const gridRight = zoomActive
+    ? Math.max(chartRight, Math.min(toScreenX(rightBoundary), width * 0.95))
+    : chartRight;
+
+  let yAxis: SceneYAxis | undefined;
+
+  if (config.yAxis?.enabled) {
+    // Zoomed cameras show a slice of the range, so keep the tick density
+    const tickCount = Math.round(
+      config.yAxis.tickCount *
+        Math.max(1, (camera.scale * worldHeight) / graphHeight),
+    );
+
+    yAxis = {
+      ticks: niceTicks(minValue, maxValue, tickCount)
+        .map((value) => ({
+          value,
+          label: formatValue(value),
+          y: toScreenY(valueToY(value)),
+        }))
+        .filter(
+          (tick) =>
+            tick.y >= chartTop - 1 && tick.y <= chartTop + graphHeight + 1,
+        ),
+      labelX: gridLeft - 24,
+      gridLeft,
+      gridRight,
+      gridlines: config.yAxis.gridlines,
+      gridColor: config.yAxis.gridColor,
+      labelColor: config.yAxis.labelColor,
+      font: `500 ${config.yAxis.fontSize}px ${fonts.labels}`,
+    };
+  }
+
+  // Levels span the same horizontal range as the Y axis grid
+  const referenceLines: SceneReferenceLine[] = (
+    config.referenceLines ?? []
+  ).map((line) => {
+    const y = toScreenY(valueToY(line.value));
+    const fontSize = Math.round(labelFontSize * 0.8);
+
+    return {
+      y,
+      left: gridLeft,
+      right: gridRight,
+      color: line.color,
+      dash: DASH_PATTERNS[line.dash],
+      label: {
+        text: line.label
+          ? `${line.label} ${formatValue(line.value)}`
+          : formatValue(line.value),
+        x: gridRight,
+        y: y - fontSize * 0.5,
+        font: `600 ${fontSize}px ${fonts.labels}`,
+        align: "right",
+      },
+      ...(line.band && {
+        band: {
+          top: Math.min(y, toScreenY(valueToY(line.bandTo))),
+          bottom: Math.max(y, toScreenY(valueToY(line.bandTo))),
+        },
+      }),
+    };
+  });
+
+  let xAxis: SceneXAxis | undefined;
+
+  if (config.xAxis?.enabled && timeSpan > 0) {
+    const { fontSize } = config.xAxis;
+
+    // World x of a clock time, interpolated between neighbouring points so
+    // the ruler also lines up when points are spaced by index
+    const timeToX = (minutes: number) => {
+      let i = 0;
+      while (i < times.length - 2 && minutes > times[i + 1]) i++;
+
+      const span = times[i + 1] - times[i] || 1;
+      const r = (minutes - times[i]) / span;
+      const from = calculatedPoints[i].x;
+      return from + (calculatedPoints[i + 1].x - from) * r;
+    };
+
+    const pxPerMinute =
+      (toScreenX(rightBoundary) - toScreenX(leftBoundary)) / timeSpan;
+    const minSpacing = fontSize * 6;
+    const interval = pickTimeInterval(pxPerMinute, minSpacing);
+    const maxTime = minTime + timeSpan;
+
+    const ticks: SceneXAxis["ticks"] = [];
+
+    for (
+      let minutes = Math.ceil(minTime / interval) * interval;
+      minutes <= maxTime;
+      minutes += interval
+    ) {
+      const x = toScreenX(timeToX(minutes));
+      if (x < gridLeft - 1 || x > gridRight + 1) continue;
+
+      // Index spacing squeezes long gaps, drop ticks that would collide
+      const previous = ticks[ticks.length - 1];
+      if (previous && x - previous.x < minSpacing) continue;
+
+      ticks.push({ minutes, label: formatAMPM(minutesToTime(minutes)), x });
+    }
+
+    xAxis = {
+      ticks,
+      y: height - layout.watermarkBottomOffset - fontSize * 4,
+      left: gridLeft,
+      right: gridRight,
+      lineColor: config.xAxis.lineColor,
+      labelColor: config.xAxis.labelColor,
+      font: `500 ${fontSize}px ${fonts.labels}`,
+    };
+  }
+
+  /* ===============================
+     HEADER
+  =============================== */
+
+  let headerCursor = layout.watermarkTopOffset
+    ? 60 + layout.watermarkTopOffset
+    : 120;
+
+  const header = headerTextOf(config);
+  const headerX = {
+    left: HEADER_MARGIN,
+    center: width / 2,
+    right: width - HEADER_MARGIN,
+  }[header.typography.align];
+
+  const headerLines = (
+    fitted: FittedText | undefined,
+    font: (size: number) => string,
+  ): SceneText[] => {
+    if (!fitted) return [];
+
+    const lines = fitted.lines.map((text, i) => ({
+      text,
+      x: headerX,
+      y: headerCursor + i * fitted.size * HEADER_LINE_HEIGHT,
+      font: font(fitted.size),
+      align: header.typography.align,
+    }));
+    headerCursor += textBlockHeight(fitted);
+
+    return lines;
+  };
+
+  const title = headerLines(header.title, titleFont(fonts));
+  const description = headerLines(header.description, descriptionFont(fonts));
+
+  /* ===============================
+     CALLOUTS
+  =============================== */
+
+  // Callouts stay hidden until the plane gets to their point
+  const callouts: SceneCallout[] = geometry.callouts.flatMap(
+    ({ index, ...callout }) => {
+      const pop = Math.min(
+        Math.max((elapsed - arrivals[index]) / CALLOUT_POP_MS, 0),
+        1,
+      );
+      return pop > 0 ? [{ ...callout, scale: easeOutBack(pop) }] : [];
+    },
+  );
+
+  /* ===============================
+     VALUE TICKER (SCREEN SPACE)
+  =============================== */
+
+  let ticker: SceneTicker | undefined;
+
+  if (config.ticker?.enabled) {
+    const { fontSize, position } = config.ticker;
+
+    // Read the value back from the plane height, so it counts smoothly
+    // along straight and curved segments alike
+    const range = maxValue - minValue;
+    const rawValue = range
+      ? minValue + ((chartTop + worldHeight - plane.y) / worldHeight) * range
+      : minValue;
+    // Count in the precision the points were typed with
+    const decimals = Math.max(
+      ...points.map((p) => (String(p.value).split(".")[1] ?? "").length),
+    );
+    const value =
+      flightProgress >= 1
+        ? points[totalPoints - 1].value
+        : Number(rawValue.toFixed(decimals));
+
+    const change = value - points[0].value;
+    const changePct = points[0].value ? (change / points[0].value) * 100 : 0;
+
+    const valueFont = `bold ${fontSize}px ${fonts.labels}`;
+    const changeFont = `600 ${Math.round(fontSize * 0.6)}px ${fonts.labels}`;
+    const valueText = formatValue(value);
+    const changeText = `${signed(change, formatValue(change))} (${signed(
+      changePct,
+      `${changePct.toFixed(2)}%`,
+    )})`;
+
+    const tickerPadding = fontSize * 0.5;
+    const boxWidth =
+      Math.max(
+        config.measureText(valueText, valueFont),
+        config.measureText(changeText, changeFont),
+      ) +
+      tickerPadding * 2;
+    const boxHeight = fontSize * 1.8 + tickerPadding * 2;
+    const margin = 40;
+
+    // Top corners sit under the header and legend, bottom corners stay
+    // inside the watermark safe area and above the time ruler
+    const top = position.startsWith("top")
+      ? (legend?.box.bottom ?? layout.headerBottom) + LABEL_SAFE_PADDING
+      : (config.xAxis?.enabled
+          ? height - layout.watermarkBottomOffset - config.xAxis.fontSize * 5
+          : height - layout.watermarkBottomOffset) -
+        margin -
+        boxHeight;
+    const left = position.endsWith("left") ? margin : width - margin - boxWidth;
+
+    ticker = {
+      box: { left, right: left + boxWidth, top, bottom: top + boxHeight },
+      value: {
+        text: valueText,
+        x: left + tickerPadding,
+        y: top + tickerPadding + fontSize * 0.9,
+        font: valueFont,
+        align: "left",
+      },
+      change: {
+        text: changeText,
+        x: left + tickerPadding,
+        y: top + tickerPadding + fontSize * 1.65,
+        font: changeFont,
+        align: "left",
+      },
+      rising: change >= 0,
+    };
+  }
+
+  /* ===============================
+     EFFECTS
+  =============================== */
+
+  const effectsConfig = config.effects ?? DEFAULT_EFFECTS;
+
+  // 0 - 1 age of something that started at `start` ms and lasts `length`
+  const ageSince = (start: number, length: number) => {
+    const age = (elapsed - start) / length;
+    return age >= 0 && age < 1 ? age : undefined;
+  };
+
+  const currentSegment = path[path.length - 1];
+
+  const effects: SceneEffects = {
+    contrail: contrailPuffs(
+      path,
+      travelled,
+      plane.width * 0.4,
+      effectsConfig.contrail,
+    ),
+    glow:
+      effectsConfig.glow > 0 && flightProgress < 1 && currentSegment
+        ? { ...currentSegment, blur: 40 * effectsConfig.glow }
+        : undefined,
+    sparkles: [],
+    pulses: [],
+  };
+
+  if (effectsConfig.sparkles > 0) {
+    let high = points[0].value;
+
+    points.forEach((point, i) => {
+      if (i === 0 || point.value <= high) return;
+      high = point.value;
+
+      const age = ageSince(arrivals[i], SPARKLE_MS);
+      if (age === undefined) return;
+
+      effects.sparkles.push(
+        ...sparkleBurst(calculatedPoints[i], i, age, effectsConfig.sparkles),
+      );
+    });
+  }
+
+  if (effectsConfig.pulse > 0) {
+    calculatedPoints.forEach(({ x, y }, i) => {
+      const age = i > 0 ? ageSince(arrivals[i], PULSE_MS) : undefined;
+      if (age === undefined) return;
+
+      effects.pulses.push({
+        x,
+        y,
+        radius:
+          MARKER_RADIUS +
+          PULSE_SPREAD * effectsConfig.pulse * easeOutCubic(age),
+        opacity: (1 - age) * Math.min(0.4 + effectsConfig.pulse, 1),
+      });
+    });
+  }
+
+  /* ===============================
+     OUTRO (SCREEN SPACE)
+  =============================== */
+
+  let outro: SceneOutro | undefined;
+
+  if (sinceOutro > 0) {
+    const first = points[0].value;
+    const change = points[points.length - 1].value - first;
+    const changePct = first ? (change / first) * 100 : 0;
+    const rising = change >= 0;
+
+    const cardIn = easeOutCubic(
+      Math.min(Math.max((sinceOutro - SUMMARY_DELAY_MS) / SUMMARY_IN_MS, 0), 1),
+    );
+    const sinceBurst = sinceOutro - SUMMARY_DELAY_MS;
+
+    outro = {
+      dim: outroConfig.celebration && !rising ? 0.35 * cardIn : 0,
+      confetti:
+        outroConfig.celebration && sinceBurst > 0
+          ? fallingPieces(
+              width,
+              height,
+              sinceBurst,
+              Math.min(sinceBurst / 200, 1),
+              rising ? CONFETTI : ASH,
+            )
+          : [],
+    };
+
+    if (outroConfig.summary && config.summaryText && cardIn > 0) {
+      const text = config.summaryText;
+      const drawdown = maxDrawdown(points);
+
+      const titleSize = Math.round(width * 0.045);
+      const rowSize = Math.round(width * 0.04);
+      const padding = Math.round(width * 0.04);
+      const rowHeight = rowSize * 1.8;
+      const rows = [
+        {
+          label: text.change,
+          value: signed(change, formatValue(change)),
+          rising,
+        },
+        {
+          label: text.percent,
+          value: signed(changePct, `${changePct.toFixed(2)}%`),
+          rising,
+        },
+        {
+          label: text.drawdown,
+          value: drawdown.value
+            ? `-${formatValue(drawdown.value)} (-${drawdown.percent.toFixed(2)}%)`
+            : formatValue(0),
+          rising: !drawdown.value,
+        },
+      ];
+
+      const cardWidth = width * 0.76;
+      const cardHeight =
+        padding * 2 + titleSize * 1.6 + rows.length * rowHeight;
+      const left = (width - cardWidth) / 2;
+      // Slides up into the middle of the canvas while fading in
+      const top = (height - cardHeight) / 2 + (1 - cardIn) * 60;
+      const rowsTop = top + padding + titleSize * 1.6;
+
+      outro.summary = {
+        box: { left, right: left + cardWidth, top, bottom: top + cardHeight },
+        title: {
+          text: text.title,
+          x: width / 2,
+          y: top + padding + titleSize,
+          font: `bold ${titleSize}px ${fonts.title}`,
+          align: "center",
+        },
+        rows: rows.map((row, i) => {
+          const y = rowsTop + i * rowHeight + rowSize * 1.2;
+          return {
+            label: {
+              text: row.label,
+              x: left + padding,
+              y,
+              font: `500 ${rowSize}px ${fonts.labels}`,
+              align: "left",
+            },
+            value: {
+              text: row.value,
+              x: left + cardWidth - padding,
+              y,
+              font: `bold ${rowSize}px ${fonts.labels}`,
+              align: "right",
+            },
+            rising: row.rising,
+          };
+        }),
+        rising,
+        opacity: cardIn,
+      };
+    }
+  }
+
+  return {
+    width,
+    height,
+    flightProgress,
+    zoomProgress,
+    title,
+    description,
+    camera,
+    clouds: config.background?.sky
+      ? computeClouds(config, camera.offsetX, elapsed)
+      : [],
+    yAxis,
+    xAxis,
+    referenceLines,
+    path,
+    candles: sceneCandles,
+    markers: calculatedPoints.map((p) => ({ x: p.x, y: p.y })),
+    labels,
+    callouts,
+    plane,
+    effects,
+    series: seriesScenes,
+    legend,
+    ticker,
+    outro,
+    watermark: computeWatermark(config),
+    card: computeCard(config, clock),
+  };
+}
+
+/* ---------------- WATERMARK ---------------- */
+
+function computeWatermark(config: SceneConfig): SceneWatermark | undefined {
+  const fonts = config.fonts ?? DEFAULT_SCENE_FONTS;
+  const { watermark, width, height } = config;
+  if (!watermark?.enabled) return undefined;
+
+  const margin = watermark.margin;
+
+  // -------------------------
+  // IMAGE WATERMARK
+  // -------------------------
+  if (watermark.type === "image" && config.watermarkAspect) {
+    const maxWidth = width * watermark.sizeRatio;
+    const aspect = config.watermarkAspect;
+
+    let drawWidth = maxWidth;
+    let drawHeight = maxWidth / aspect;
+
+    const maxHeight = height * 0.2;
+
+    if (drawHeight > maxHeight) {
+      drawHeight = maxHeight;
+      drawWidth = maxHeight * aspect;
+    }
+
+    let x = margin;
+    let y = margin;
+
+    if (watermark.position.includes("right")) {
+      x = width - drawWidth - margin;
+    }
+
+    if (watermark.position.includes("center")) {
+      x = width / 2 - drawWidth / 2;
+    }
+
+    if (watermark.position.includes("bottom")) {
+      y = height - drawHeight - margin;
+    }
+
+    return {
+      type: "image",
+      x,
+      y,
+      width: drawWidth,
+      height: drawHeight,
+      opacity: watermark.opacity,
+    };
+  }
+
+  // -------------------------
+  // TEXT WATERMARK
+  // -------------------------
+  if (watermark.type === "text" && watermark.text) {
+    const fontSize = watermarkTextSize(config);
+
+    let x = margin;
+    let y = margin + fontSize;
+    let align: SceneText["align"] = "left";
+
+    if (watermark.position.includes("right")) {
+      align = "right";
+      x = width - margin;
+    } else if (watermark.position.includes("center")) {
+      align = "center";
+      x = width / 2;
+    }
+
+    if (watermark.position.includes("bottom")) {
+      y = height - margin;
+    }
+
+    return {
+      type: "text",
+      text: watermark.text,
+      x,
+      y,
+      font: `500 ${fontSize}px ${fonts.watermark}`,
+      align,
+      opacity: watermark.opacity,
+    };
+  }
+
+  return undefined;
+}
+
+/* ---------------- TITLE CARDS ---------------- */
+
+// Near-black or white, whichever reads better on a #rrggbb background
+const readableOn = (background: string) => {
+  const hex = background.replace("#", "");
+  const [r, g, b] = [0, 2, 4].map(
+    (i) => parseInt(hex.slice(i, i + 2), 16) / 255 || 0,
+  );
+  return 0.299 * r + 0.587 * g + 0.114 * b > 0.6 ? "#111111" : "#ffffff";
+};
+
+function computeCard(
+  config: SceneConfig,
+  clock: number,
+): SceneCard | undefined {
+  const { cards, width, height } = config;
+  if (!cards) return undefined;
+
+  const introMs = cardMs(cards.intro);
+  const outroStart = introMs + chartDuration(config);
+
+  // 1 while the card is fully shown, 0 once it has transitioned away
+  let card: TitleCardConfig;
+  let shown: number;
+  let direction: number;
+
+  if (cards.intro.enabled && clock < introMs) {
+    card = cards.intro;
+    shown = (introMs - clock) / Math.min(CARD_TRANSITION_MS, introMs / 2);
+    direction = -1; // slides up and away
+  } else if (cards.outro.enabled && clock > outroStart) {
+    card = cards.outro;
+    shown =
+      (clock - outroStart) /
+      Math.min(CARD_TRANSITION_MS, cards.outro.durationMs / 2);
+    direction = 1; // slides in from below
+  } else {
+    return undefined;
+  }
+
+  shown = Math.min(shown, 1);
+  const slide = card.transition === "slide";
+
+  const fonts = config.fonts ?? DEFAULT_SCENE_FONTS;
+  const maxWidth = width - HEADER_MARGIN * 2;
+  const typography = {
+    ...DEFAULT_TYPOGRAPHY,
+    align: "center" as const,
+    maxLines: 3,
+  };
+  const titleSize = Math.round(width * 0.08);
+  const subtitleSize = Math.round(width * 0.045);
+  const gap = Math.round(width * 0.04);
+
+  const fit = (text: string, size: number, font: (size: number) => string) =>
+    text.trim()
+      ? fitText(text, size, maxWidth, typography, (line, lineSize) =>
+          config.measureText(line, font(lineSize)),
+        )
+      : undefined;
+
+  const title = fit(card.title, titleSize, titleFont(fonts));
+  const subtitle = fit(card.subtitle, subtitleSize, descriptionFont(fonts));
+
+  // Logo box, limited in width and height
+  let logoSize: { width: number; height: number } | undefined;
+  const aspect = config.watermarkAspect;
+  if (
+    card.showLogo &&
+    config.watermark?.type === "image" &&
+    config.watermark.imageUrl &&
+    aspect
+  ) {
+    const logoHeight = Math.min((width * 0.3) / aspect, height * 0.15);
+    logoSize = { width: logoHeight * aspect, height: logoHeight };
+  }
+
+  const ctaText = card.cta.trim();
+  const ctaFont = `bold ${subtitleSize}px ${fonts.labels}`;
+  const ctaSize = ctaText
+    ? {
+        width: config.measureText(ctaText, ctaFont) + subtitleSize * 1.8,
+        height: subtitleSize * 2,
+      }
+    : undefined;
+
+  // Stack logo, title, subtitle and CTA, centred vertically
+  const blocks = [
+    logoSize?.height,
+    title && textBlockHeight(title),
+    subtitle && textBlockHeight(subtitle),
+    ctaSize?.height,
+  ].filter((h): h is number => !!h);
+  let cursor =
+    (height - blocks.reduce((a, b) => a + b, 0) - gap * (blocks.length - 1)) /
+    2;
+
+  const lines = (
+    fitted: FittedText | undefined,
+    font: (size: number) => string,
+  ) => {
+    if (!fitted) return [];
+
+    const texts = fitted.lines.map((text, i) => ({
+      text,
+      x: width / 2,
+      y: cursor + fitted.size * (HEADER_LINE_HEIGHT * i + 1),
+      font: font(fitted.size),
+      align: "center" as const,
+    }));
+    cursor += textBlockHeight(fitted) + gap;
+
+    return texts;
+  };
+
+  let logo: SceneCard["logo"];
+  if (logoSize) {
+    logo = { x: (width - logoSize.width) / 2, y: cursor, ...logoSize };
+    cursor += logoSize.height + gap;
+  }
+
+  const titleLines = lines(title, titleFont(fonts));
+  const subtitleLines = lines(subtitle, descriptionFont(fonts));
+
+  let cta: SceneCard["cta"];
+  if (ctaSize) {
+    const left = (width - ctaSize.width) / 2;
+    cta = {
+      box: {
+        left,
+        right: left + ctaSize.width,
+        top: cursor,
+        bottom: cursor + ctaSize.height,
+      },
+      text: {
+        text: ctaText,
+        x: width / 2,
+        y: cursor + ctaSize.height / 2 + subtitleSize * 0.35,
+        font: ctaFont,
+        align: "center",
+      },
+    };
+  }
+
+  return {
+    background: card.background,
+    color: readableOn(card.background),
+    opacity: slide ? 1 : shown,
+    offsetY: slide ? direction * (1 - easeOutCubic(shown)) * height : 0,
+    logo,
+    title: titleLines,
+    subtitle: subtitleLines,
+    cta,
+  };
+}
@@ -0,0 +1,36 @@
+/*
+  Extra series
+  --------------------------------
+  Series flown next to the main points (plane race / strategy comparison).
+  New series pick the next palette color and vehicle so planes are told
+  apart without any setup.
+*/
+
+import { Point, SeriesConfig, SpriteKind } from "./scene";
+import { DEFAULT_SPRITE } from "./sprites";
+
+export const SERIES_COLORS = [
+  "#2563eb",
+  "#f59e0b",
+  "#8b5cf6",
+  "#ec4899",
+  "#14b8a6",
+];
+
+const SERIES_SPRITES: SpriteKind[] = ["rocket", "car", "bull", "plane"];
+
+// index counts extra series only, the main points are not included
+export const createSeries = (
+  index: number,
+  name: string,
+  points: Point[],
+): SeriesConfig => ({
+  name,
+  color: SERIES_COLORS[index % SERIES_COLORS.length],
+  sprite: {
+    ...DEFAULT_SPRITE,
+    kind: SERIES_SPRITES[index % SERIES_SPRITES.length],
+  },
+  labelStyle: "ends",
+  points,
+});
@@ -0,0 +1,32 @@
+/*
+  Plane sprites
+  --------------------------------
+  The flying marker can be any of the bundled vehicles or an uploaded
+  PNG/SVG (kept as a data URL so it survives in presets).
+*/
+
+import { SpriteConfig, SpriteKind } from "./scene";
+
+export const BUILT_IN_SPRITES: Record<Exclude<SpriteKind, "custom">, string> = {
+  plane: "/airplane.png",
+  rocket: "/sprites/rocket.svg",
+  car: "/sprites/car.svg",
+  bull: "/sprites/bull.svg",
+  bear: "/sprites/bear.svg",
+};
+
+export const DEFAULT_SPRITE: SpriteConfig = {
+  kind: "plane",
+  imageUrl: "",
+  size: 110,
+  rotationOffset: 0,
+  fallingEnabled: false,
+  fallingKind: "bear",
+  fallingImageUrl: "",
+};
+
+// Image URL for a sprite choice, falls back to the plane when an upload is missing
+export const spriteSource = (kind: SpriteKind, imageUrl?: string) => {
+  if (kind === "custom") return imageUrl || BUILT_IN_SPRITES.plane;
+  return BUILT_IN_SPRITES[kind];
+};
@@ -0,0 +1,99 @@
+/*
+  Canvas color themes
+  --------------------------------
+  Every color the painter uses comes from a Theme. Built-in themes can be
+  picked as-is, editing any color turns the theme into "custom".
+*/
+
+export type ThemeName = "light" | "dark" | "neon" | "monochrome" | "custom";
+
+export interface Theme {
+  name: ThemeName;
+  background: string;
+  upStroke: string;
+  downStroke: string;
+  marker: string;
+  labelStartBg: string;
+  labelMiddleBg: string;
+  labelFinalBg: string;
+  labelText: string;
+  leaderLine: string;
+  titleColor: string; // also used for text watermarks
+  descriptionColor: string;
+}
+
+export const BUILT_IN_THEMES: Record<Exclude<ThemeName, "custom">, Theme> = {
+  light: {
+    name: "light",
+    background: "#ffffff",
+    upStroke: "#16a34a",
+    downStroke: "#dc2626",
+    marker: "#000000",
+    labelStartBg: "#d1fae5",
+    labelMiddleBg: "#f3f4f6",
+    labelFinalBg: "#fee2e2",
+    labelText: "#111111",
+    leaderLine: "#e5e7eb",
+    titleColor: "#111111",
+    descriptionColor: "#555555",
+  },
+  dark: {
+    name: "dark",
+    background: "#0f172a",
+    upStroke: "#22c55e",
+    downStroke: "#ef4444",
+    marker: "#f8fafc",
+    labelStartBg: "#14532d",
+    labelMiddleBg: "#1e293b",
+    labelFinalBg: "#7f1d1d",
+    labelText: "#f8fafc",
+    leaderLine: "#334155",
+    titleColor: "#f8fafc",
+    descriptionColor: "#94a3b8",
+  },
+  neon: {
+    name: "neon",
+    background: "#0a0a1a",
+    upStroke: "#39ff14",
+    downStroke: "#ff2079",
+    marker: "#00f0ff",
+    labelStartBg: "#003b2e",
+    labelMiddleBg: "#1a1a3a",
+    labelFinalBg: "#4a0025",
+    labelText: "#e0f7ff",
+    leaderLine: "#3a3a6a",
+    titleColor: "#00f0ff",
+    descriptionColor: "#ff9de2",
+  },
+  monochrome: {
+    name: "monochrome",
+    background: "#ffffff",
+    upStroke: "#111111",
+    downStroke: "#737373",
+    marker: "#111111",
+    labelStartBg: "#e5e5e5",
+    labelMiddleBg: "#f5f5f5",
+    labelFinalBg: "#d4d4d4",
+    labelText: "#111111",
+    leaderLine: "#d4d4d4",
+    titleColor: "#111111",
+    descriptionColor: "#525252",
+  },
+};
+
+export const DEFAULT_THEME = BUILT_IN_THEMES.light;
+
+// Color fields in the order the custom theme editor shows them
+export const THEME_COLOR_KEYS: Exclude<keyof Theme, "name">[] = [
+  "background",
+  "upStroke",
+  "downStroke",
+  "marker",
+  "labelStartBg",
+  "labelMiddleBg",
+  "labelFinalBg",
+  "labelText",
+  "leaderLine",
+  "titleColor",
+  "descriptionColor",
+];
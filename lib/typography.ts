@@ -0,0 +1,141 @@
+/*
+  Header typography
+  --------------------------------
+  Title and description are wrapped word by word to the available width.
+  With auto-shrink on, the font steps down until the text fits in
+  maxLines; whatever still overflows is cut with an ellipsis. Words wider
+  than a whole line are broken by character so nothing leaves the canvas.
+*/
+
+import type { TypographyConfig } from "./scene";
+
+export const DEFAULT_TYPOGRAPHY: TypographyConfig = {
+  align: "center",
+  maxLines: 2,
+  autoShrink: true,
+  titleSize: 72,
+  descriptionSize: 40,
+};
+
+export interface FittedText {
+  lines: string[];
+  size: number;
+}
+
+type Measure = (text: string, size: number) => number;
+
+// Smallest size auto-shrink goes to, relative to the requested one
+const MIN_SHRINK = 0.5;
+const SHRINK_STEP = 0.92;
+
+const ELLIPSIS = "…";
+
+// Split by grapheme so Devanagari and Kannada vowel signs stay on their letter
+const graphemes = (text: string) =>
+  Array.from(
+    new Intl.Segmenter(undefined, { granularity: "grapheme" }).segment(text),
+    ({ segment }) => segment,
+  );
+
+const breakWord = (
+  word: string,
+  size: number,
+  maxWidth: number,
+  measure: Measure,
+) => {
+  const parts: string[] = [];
+  let current = "";
+
+  for (const char of graphemes(word)) {
+    const next = current + char;
+    if (current && measure(next, size) > maxWidth) {
+      parts.push(current);
+      current = char;
+    } else {
+      current = next;
+    }
+  }
+
+  if (current) parts.push(current);
+  return parts;
+};
+
+export const wrapText = (
+  text: string,
+  size: number,
+  maxWidth: number,
+  measure: Measure,
+) => {
+  const lines: string[] = [];
+
+  text.split("\n").forEach((paragraph) => {
+    let line = "";
+
+    paragraph
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((word) => {
+        const next = line ? `${line} ${word}` : word;
+        if (measure(next, size) <= maxWidth) {
+          line = next;
+          return;
+        }
+
+        if (line) lines.push(line);
+
+        const pieces = breakWord(word, size, maxWidth, measure);
+        lines.push(...pieces.slice(0, -1));
+        line = pieces[pieces.length - 1];
+      });
+
+    if (line) lines.push(line);
+  });
+
+  return lines;
+};
+
+const truncate = (
+  lines: string[],
+  maxLines: number,
+  size: number,
+  maxWidth: number,
+  measure: Measure,
+) => {
+  if (lines.length <= maxLines) return lines;
+
+  const kept = lines.slice(0, maxLines);
+  let last = graphemes(kept[maxLines - 1]);
+  while (last.length && measure(last.join("") + ELLIPSIS, size) > maxWidth) {
+    last = last.slice(0, -1);
+  }
+  kept[maxLines - 1] = last.join("").trimEnd() + ELLIPSIS;
+
+  return kept;
+};
+
+export const fitText = (
+  text: string,
+  size: number,
+  maxWidth: number,
+  typography: TypographyConfig,
+  measure: Measure,
+): FittedText => {
+  const maxLines = Math.max(1, typography.maxLines);
+  let current = size;
+  let lines = wrapText(text, current, maxWidth, measure);
+
+  if (typography.autoShrink) {
+    while (
+      lines.length > maxLines &&
+      current * SHRINK_STEP >= size * MIN_SHRINK
+    ) {
+      current = Math.floor(current * SHRINK_STEP);
+      lines = wrapText(text, current, maxWidth, measure);
+    }
+  }
+
+  return {
+    lines: truncate(lines, maxLines, current, maxWidth, measure),
+    size: current,
+  };
+};